@@ -0,0 +1,488 @@
+// Quota Dashboard client-side renderer (loaded by src/webview/template.ts)
+// Builds DOM nodes (never HTML strings) so quota data needs no escaping,
+// and re-renders only the sections a patch touches.
+
+(function () {
+  'use strict';
+
+  const vscode = acquireVsCodeApi();
+  // Set by the extension so page and extension agree on message shapes
+  const PROTOCOL_VERSION = Number(document.body.dataset.protocolVersion);
+  let state = null;
+
+  function el(tag, className, children) {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    (children || []).forEach((child) => {
+      if (child !== null && child !== undefined) node.append(child);
+    });
+    return node;
+  }
+
+  // e.g. "7m", "3h 5m", "2d 4h"
+  function formatAge(ms) {
+    const minutes = Math.max(0, Math.floor(ms / 60000));
+    const hours = Math.floor(minutes / 60);
+    const days = Math.floor(hours / 24);
+    if (days > 0) return days + 'd ' + (hours % 24) + 'h';
+    if (hours > 0) return hours + 'h ' + (minutes % 60) + 'm';
+    return minutes + 'm';
+  }
+
+  // Text showing the age of a timestamp, e.g. "{age} ago"; kept current by
+  // the ticker below
+  function ageText(tag, className, since, template) {
+    const node = el(tag, className);
+    node.dataset.since = since;
+    node.dataset.template = template;
+    updateAge(node);
+    return node;
+  }
+
+  // Text showing the time left until a timestamp, e.g. "Resets in {age}"
+  function countdownText(tag, className, until, template) {
+    const node = el(tag, className);
+    node.dataset.until = until;
+    node.dataset.template = template;
+    updateAge(node);
+    return node;
+  }
+
+  function updateAge(node) {
+    const ms = node.dataset.until
+      ? Number(node.dataset.until) - Date.now()
+      : Date.now() - Number(node.dataset.since);
+    node.textContent = node.dataset.template.replace('{age}', formatAge(ms));
+  }
+
+  function renderResetTime(model) {
+    if (model.resetIn) {
+      return countdownText(
+        'div',
+        'reset-time',
+        model.resetIn.at,
+        model.resetIn.template
+      );
+    }
+    if (model.resetAgo) {
+      return ageText(
+        'div',
+        'reset-time',
+        model.resetAgo.at,
+        model.resetAgo.template
+      );
+    }
+    return model.resetText ? el('div', 'reset-time', [model.resetText]) : null;
+  }
+
+  function actionButton(label, className, action, commandId) {
+    const button = el('button', className, [label]);
+    button.dataset.action = action;
+    if (commandId) button.dataset.commandId = commandId;
+    return button;
+  }
+
+  function renderPlan(plan) {
+    const credits = plan.credits;
+    let creditsInfo = null;
+    if (credits) {
+      const fill = el('div', 'progress-fill ' + credits.level);
+      fill.style.width = credits.percent + '%';
+      creditsInfo = el('div', 'plan-credits', [
+        el('span', '', [
+          credits.available + ' / ' + credits.monthly + ' prompt credits',
+        ]),
+        el('div', 'progress-bar', [fill]),
+      ]);
+      creditsInfo.title =
+        credits.used +
+        ' used this month, ' +
+        credits.available +
+        ' remaining of ' +
+        credits.monthly +
+        ' per month';
+    }
+    return el('div', 'plan-badge', [
+      plan.name ? el('span', 'plan-name', [plan.name]) : null,
+      creditsInfo,
+    ]);
+  }
+
+  function renderHeader(header) {
+    const toggle = actionButton(
+      header.intervalLabel,
+      'interval-btn' + (header.isIntensiveMode ? ' active' : ''),
+      'setInterval'
+    );
+    return [
+      header.plan ? renderPlan(header.plan) : null,
+      actionButton('↻ Refresh', 'refresh-btn', 'refresh'),
+      toggle,
+    ].filter(Boolean);
+  }
+
+  function renderNotice(notice) {
+    if (!notice) return [];
+    if (notice.kind === 'loading') return [el('p', '', ['Loading...'])];
+
+    const buttons = [actionButton('Retry', 'refresh-btn', 'refresh')];
+    if (notice.action) {
+      buttons.push(
+        actionButton(
+          notice.action.label,
+          'refresh-btn',
+          'runCommand',
+          notice.action.commandId
+        )
+      );
+    }
+
+    if (notice.kind === 'error') {
+      return [
+        el('div', 'error', [
+          el('strong', '', [notice.title]),
+          el('br'),
+          notice.detail,
+        ]),
+        ...buttons,
+      ];
+    }
+    return [
+      el('div', 'error stale-banner', [
+        el('strong', '', [notice.title]),
+        ' — ',
+        ageText(
+          'span',
+          '',
+          notice.fetchedAt,
+          'showing data from ' +
+            new Date(notice.fetchedAt).toLocaleTimeString() +
+            ' ({age} old)'
+        ),
+        el('br'),
+        notice.detail,
+        el('br'),
+        ...buttons,
+      ]),
+    ];
+  }
+
+  function renderSelection(selection) {
+    if (selection.length === 0) return [];
+    const items = selection.map((item) => {
+      const input = el('input');
+      input.type = 'checkbox';
+      input.id = 'checkbox-' + item.modelId.replace(/[^a-zA-Z0-9]/g, '-');
+      input.checked = item.selected;
+      input.dataset.modelId = item.modelId;
+      const label = el('label', '', [item.label]);
+      label.htmlFor = input.id;
+      return el('div', 'checkbox-item', [input, label]);
+    });
+    return [
+      el('div', 'status-bar-selection', [
+        el('h3', '', ['Status Bar Models']),
+        el('div', 'checkbox-row', items),
+      ]),
+    ];
+  }
+
+  const SVG_NS = 'http://www.w3.org/2000/svg';
+  const CHART_WIDTH = 300;
+  const CHART_HEIGHT = 48;
+
+  function svg(tag, attrs) {
+    const node = document.createElementNS(SVG_NS, tag);
+    Object.keys(attrs || {}).forEach((name) => {
+      node.setAttribute(name, String(attrs[name]));
+    });
+    return node;
+  }
+
+  function formatChartTime(timestamp) {
+    return new Date(timestamp).toLocaleString(undefined, {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+
+  /**
+   * Remaining percentage over the history range, with resets marked and a
+   * hover tooltip showing the nearest reading
+   */
+  function renderChart(series, history) {
+    if (!series || series.points.length < 2) return null;
+
+    const span = history.to - history.from;
+    const x = (t) => ((t - history.from) / span) * CHART_WIDTH;
+    const y = (pct) => CHART_HEIGHT - (pct / 100) * CHART_HEIGHT;
+
+    const chart = svg('svg', {
+      class: 'chart',
+      viewBox: '0 0 ' + CHART_WIDTH + ' ' + CHART_HEIGHT,
+      preserveAspectRatio: 'none',
+    });
+
+    // Day boundaries, so weekly patterns stand out
+    if (history.range === '7d') {
+      const day = new Date(history.from);
+      day.setHours(24, 0, 0, 0);
+      for (; day.getTime() < history.to; day.setDate(day.getDate() + 1)) {
+        const dayX = x(day.getTime());
+        chart.append(
+          svg('line', {
+            class: 'chart-day',
+            x1: dayX,
+            x2: dayX,
+            y1: 0,
+            y2: CHART_HEIGHT,
+          })
+        );
+      }
+    }
+
+    const coords = series.points.map(
+      (p) => x(p[0]).toFixed(1) + ',' + y(p[1]).toFixed(1)
+    );
+    const firstX = x(series.points[0][0]).toFixed(1);
+    const lastX = x(series.points[series.points.length - 1][0]).toFixed(1);
+    chart.append(
+      svg('polygon', {
+        class: 'chart-area',
+        points: [firstX + ',' + CHART_HEIGHT]
+          .concat(coords, [lastX + ',' + CHART_HEIGHT])
+          .join(' '),
+      }),
+      svg('polyline', { class: 'chart-line', points: coords.join(' ') })
+    );
+
+    series.resets.forEach((t) => {
+      chart.append(
+        svg('line', {
+          class: 'chart-reset',
+          x1: x(t),
+          x2: x(t),
+          y1: 0,
+          y2: CHART_HEIGHT,
+        })
+      );
+    });
+
+    const cursor = svg('line', {
+      class: 'chart-cursor',
+      y1: 0,
+      y2: CHART_HEIGHT,
+    });
+    cursor.style.display = 'none';
+    chart.append(cursor);
+
+    const tooltip = el('div', 'chart-tooltip');
+    tooltip.hidden = true;
+
+    chart.addEventListener('mousemove', (event) => {
+      const rect = chart.getBoundingClientRect();
+      const t =
+        history.from + ((event.clientX - rect.left) / rect.width) * span;
+      const nearest = series.points.reduce((best, p) =>
+        Math.abs(p[0] - t) < Math.abs(best[0] - t) ? p : best
+      );
+      const nearestX = x(nearest[0]);
+      cursor.setAttribute('x1', String(nearestX));
+      cursor.setAttribute('x2', String(nearestX));
+      cursor.style.display = '';
+      tooltip.textContent =
+        formatChartTime(nearest[0]) + ' · ' + nearest[1] + '%';
+      tooltip.style.left = (nearestX / CHART_WIDTH) * 100 + '%';
+      tooltip.hidden = false;
+    });
+    chart.addEventListener('mouseleave', () => {
+      cursor.style.display = 'none';
+      tooltip.hidden = true;
+    });
+
+    return el('div', 'chart-wrapper', [chart, tooltip]);
+  }
+
+  function renderHistoryRange(history) {
+    const options = [
+      ['24h', 'Last 24h'],
+      ['7d', 'Last 7 days'],
+    ];
+    return el(
+      'div',
+      'history-range',
+      options.map(([range, label]) => {
+        const button = actionButton(
+          label,
+          'interval-btn' + (history.range === range ? ' active' : ''),
+          'setHistoryRange'
+        );
+        button.dataset.range = range;
+        return button;
+      })
+    );
+  }
+
+  function renderModelCard(model, local, history) {
+    const fill = el('div', 'progress-fill ' + model.level);
+    fill.style.width = model.percent + '%';
+    const card = el('div', local ? 'model-card' : 'stored-model-card', [
+      el('div', 'model-header', [
+        el('span', 'model-name', [model.label]),
+        el('span', 'model-pct', [
+          model.estimated
+            ? '~' + model.percent + '% remaining (est.)'
+            : model.percent + '% remaining',
+        ]),
+      ]),
+      el('div', 'progress-bar', [fill]),
+      model.historyKey
+        ? renderChart(history.series[model.historyKey], history)
+        : null,
+      renderResetTime(model),
+      model.forecastText
+        ? el('div', 'forecast' + (model.forecastWarning ? ' warning' : ''), [
+            model.forecastText,
+          ])
+        : null,
+    ]);
+    card.dataset.cardModelId = model.modelId;
+    return card;
+  }
+
+  function renderAccounts(accounts, all) {
+    if (accounts.length === 0) return [];
+    const sections = accounts.map((account) => {
+      const groups = account.groups.map((group) =>
+        el('div', 'model-group', [
+          el('h2', 'group-header', [group.name]),
+          ...group.models.map((m) =>
+            renderModelCard(m, account.local, all.history)
+          ),
+        ])
+      );
+      return el('div', 'account-section', [
+        el('div', 'account-header', [
+          el('span', 'email', ['📧 ' + account.email]),
+          account.local
+            ? el('span', 'last-updated', ['Local · Just now'])
+            : null,
+        ]),
+        account.planText ? el('div', 'plan-text', [account.planText]) : null,
+        ...groups,
+        account.updatedAt
+          ? ageText(
+              'div',
+              'last-updated',
+              account.updatedAt,
+              'Last updated: {age} ago'
+            )
+          : null,
+      ]);
+    });
+    return [
+      renderHistoryRange(all.history),
+      el('div', 'accounts-grid', sections),
+    ];
+  }
+
+  function renderFooter(footer) {
+    return [
+      footer.lastUpdated
+        ? el('div', 'timestamp', ['Last updated: ' + footer.lastUpdated])
+        : null,
+      footer.version
+        ? el('div', 'timestamp', ['version ' + footer.version])
+        : null,
+    ].filter(Boolean);
+  }
+
+  const renderers = {
+    header: renderHeader,
+    notice: renderNotice,
+    selection: renderSelection,
+    accounts: renderAccounts,
+    footer: renderFooter,
+  };
+
+  // Sections drawn inside another section's container
+  const drawnIn = { history: 'accounts' };
+
+  function render(section) {
+    const target = drawnIn[section] || section;
+    const container = document.getElementById(target);
+    if (container) {
+      container.replaceChildren(...renderers[target](state[target], state));
+    }
+  }
+
+  // Scroll to the live card of a model (opened from its status bar item)
+  function focusModel(modelId) {
+    const card = document.querySelector(
+      '.model-card[data-card-model-id="' + CSS.escape(modelId) + '"]'
+    );
+    if (!card) return;
+    card.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    card.classList.add('focused');
+    setTimeout(() => card.classList.remove('focused'), 2000);
+  }
+
+  window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message || message.version !== PROTOCOL_VERSION) return;
+
+    if (message.type === 'state') {
+      state = message.state;
+      Object.keys(renderers).forEach(render);
+    } else if (message.type === 'patch' && state) {
+      Object.keys(message.patch).forEach((section) => {
+        state[section] = message.patch[section];
+        render(section);
+      });
+    } else if (message.type === 'focus' && state) {
+      focusModel(message.modelId);
+    }
+  });
+
+  document.addEventListener('click', (event) => {
+    const target = event.target.closest('[data-action]');
+    if (!target || !state) return;
+    const action = target.dataset.action;
+    if (action === 'refresh') {
+      vscode.postMessage({ command: 'refresh' });
+    } else if (action === 'setInterval') {
+      vscode.postMessage({
+        command: 'setInterval',
+        intensive: !state.header.isIntensiveMode,
+      });
+    } else if (action === 'setHistoryRange') {
+      vscode.postMessage({
+        command: 'setHistoryRange',
+        range: target.dataset.range,
+      });
+    } else if (action === 'runCommand') {
+      vscode.postMessage({
+        command: 'runCommand',
+        commandId: target.dataset.commandId,
+      });
+    }
+  });
+
+  document.addEventListener('change', (event) => {
+    const target = event.target;
+    if (target.dataset && target.dataset.modelId) {
+      vscode.postMessage({
+        command: 'toggleModel',
+        modelId: target.dataset.modelId,
+        selected: target.checked,
+      });
+    }
+  });
+
+  setInterval(() => {
+    document.querySelectorAll('[data-since], [data-until]').forEach(updateAge);
+  }, 60 * 1000);
+
+  vscode.postMessage({ command: 'ready', version: PROTOCOL_VERSION });
+})();
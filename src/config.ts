@@ -0,0 +1,195 @@
+/**
+ * Configuration module
+ * Typed access to the `quota-checker.*` settings contributed in package.json
+ */
+
+import * as vscode from 'vscode';
+import type { ModelQuotaInfo } from './lib/quota/types';
+import type { ModelCatalogEntry } from './lib/quota/model-catalog';
+
+const SECTION = 'quota-checker';
+
+// Never poll faster than this, whatever the settings say
+const MIN_POLLING_INTERVAL_MS = 10 * 1000;
+
+export interface NotificationConfig {
+  enabled: boolean;
+  thresholds: Record<string, number>; // Percent, keyed by modelId or label keyword
+  creditsThreshold: number; // Percent of monthly prompt credits
+  hysteresis: number; // Percentage points
+}
+
+export interface AdaptivePollingConfig {
+  enabled: boolean;
+  lowQuotaThreshold: number; // Percent at or below which polling speeds up
+  nearResetMs: number; // Speed up when a selected model resets within this
+  maxInterval: number; // Upper bound when slowing down or backing off (ms)
+}
+
+/**
+ * `combined`: one item listing every selected model;
+ * `perModel`: one item per selected model
+ */
+export type StatusBarMode = 'combined' | 'perModel';
+
+export interface StatusBarConfig {
+  mode: StatusBarMode;
+  format: string; // Per-model template, e.g. "{icon}{label} {percent}"
+  aliases: Record<string, string>; // Keyed by modelId or label regex
+  showCredits: boolean; // Extra item with the prompt credits
+  creditsThreshold: number; // Percent, from notifications.creditsThreshold
+}
+
+export interface ManualEndpointConfig {
+  baseUrl: string; // Empty string means auto-discovery
+  csrfToken: string;
+}
+
+export interface QuotaCheckerConfig {
+  statusBarModels: string[]; // Label keywords used when no models are ticked
+  pollingInterval: number; // Normal mode interval (ms)
+  intensivePollingInterval: number; // Intensive mode interval (ms)
+  staleAfterMs: number; // Keep showing cached data this long after failures
+  statusBar: StatusBarConfig;
+  modelCatalog: ModelCatalogEntry[]; // Checked before the built-in catalog
+  adaptivePolling: AdaptivePollingConfig;
+  notifications: NotificationConfig;
+  manualEndpoint: ManualEndpointConfig;
+}
+
+/**
+ * Read the current configuration
+ */
+export function getConfig(): QuotaCheckerConfig {
+  const config = vscode.workspace.getConfiguration(SECTION);
+
+  return {
+    statusBarModels: config.get<string[]>('statusBarModels', [
+      'claude',
+      'gemini',
+    ]),
+    pollingInterval: Math.max(
+      MIN_POLLING_INTERVAL_MS,
+      config.get<number>('pollingInterval', 300000)
+    ),
+    intensivePollingInterval: Math.max(
+      MIN_POLLING_INTERVAL_MS,
+      config.get<number>('intensivePollingInterval', 60000)
+    ),
+    staleAfterMs: config.get<number>('staleAfterMinutes', 15) * 60 * 1000,
+    statusBar: {
+      mode: config.get<StatusBarMode>('statusBar.mode', 'combined'),
+      format: config.get<string>('statusBar.format', '{label} {percent}'),
+      aliases: config.get<Record<string, string>>('statusBar.aliases', {}),
+      showCredits: config.get<boolean>('statusBar.showCredits', false),
+      creditsThreshold: config.get<number>(
+        'notifications.creditsThreshold',
+        20
+      ),
+    },
+    modelCatalog: config
+      .get<ModelCatalogEntry[]>('modelCatalog', [])
+      .filter(
+        (entry) =>
+          typeof entry?.match === 'string' &&
+          typeof entry?.provider === 'string'
+      ),
+    adaptivePolling: {
+      enabled: config.get<boolean>('adaptivePolling.enabled', true),
+      lowQuotaThreshold: config.get<number>(
+        'adaptivePolling.lowQuotaThreshold',
+        20
+      ),
+      nearResetMs:
+        config.get<number>('adaptivePolling.nearResetMinutes', 10) * 60 * 1000,
+      maxInterval: config.get<number>('adaptivePolling.maxInterval', 1800000),
+    },
+    notifications: {
+      enabled: config.get<boolean>('notifications.enabled', true),
+      thresholds: config.get<Record<string, number>>(
+        'notifications.thresholds',
+        { '*': 20 }
+      ),
+      creditsThreshold: config.get<number>(
+        'notifications.creditsThreshold',
+        20
+      ),
+      hysteresis: config.get<number>('notifications.hysteresis', 5),
+    },
+    manualEndpoint: {
+      baseUrl: config.get<string>('manualEndpoint.baseUrl', '').trim(),
+      csrfToken: config.get<string>('manualEndpoint.csrfToken', '').trim(),
+    },
+  };
+}
+
+/**
+ * Subscribe to changes of any `quota-checker.*` setting
+ */
+export function onDidChangeConfig(
+  listener: (config: QuotaCheckerConfig) => void
+): vscode.Disposable {
+  return vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration(SECTION)) {
+      listener(getConfig());
+    }
+  });
+}
+
+/**
+ * Save the manual endpoint to user settings (empty strings clear it).
+ * Both settings are machine-scoped, so Settings Sync leaves the token alone.
+ */
+export async function setManualEndpoint(
+  endpoint: ManualEndpointConfig
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration(SECTION);
+  const target = vscode.ConfigurationTarget.Global;
+  await config.update(
+    'manualEndpoint.baseUrl',
+    endpoint.baseUrl || undefined,
+    target
+  );
+  await config.update(
+    'manualEndpoint.csrfToken',
+    endpoint.csrfToken || undefined,
+    target
+  );
+}
+
+/**
+ * Resolve which models appear in the status bar.
+ *
+ * Precedence:
+ * 1. Models ticked in the dashboard (persisted in global state)
+ * 2. Otherwise, models whose label contains any `statusBarModels` keyword
+ *    (case-insensitive)
+ */
+export function resolveStatusBarModels(
+  models: ModelQuotaInfo[],
+  selectedModelIds: string[],
+  keywords: string[]
+): string[] {
+  if (selectedModelIds.length > 0) {
+    return selectedModelIds;
+  }
+
+  const lowerKeywords = keywords.map((k) => k.toLowerCase()).filter(Boolean);
+  return models
+    .filter((m) => {
+      const label = m.label.toLowerCase();
+      return lowerKeywords.some((k) => label.includes(k));
+    })
+    .map((m) => m.modelId);
+}
+
+/**
+ * Format a polling interval for display, e.g. "60s" or "5m"
+ */
+export function formatInterval(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60 || seconds % 60 !== 0) {
+    return `${seconds}s`;
+  }
+  return `${seconds / 60}m`;
+}
@@ -0,0 +1,215 @@
+/**
+ * Connection state machine
+ * Tracks whether we can reach the Antigravity language server, and why not
+ *
+ *   starting → discovering → connected ⇄ degraded → disconnected
+ *                         ↘ auth-required (from any state)
+ *
+ * Polling runs while connected or degraded; otherwise the scheduler keeps
+ * retrying with backoff.
+ * A degraded connection keeps showing the last good data until it is older
+ * than the staleness window.
+ */
+
+import * as vscode from 'vscode';
+import {
+  NotAuthenticatedError,
+  QuotaCheckerError,
+  toQuotaCheckerError,
+} from './lib/local/errors';
+
+export type ConnectionStateKind =
+  | 'starting' // Waiting before the first attempt
+  | 'discovering' // Looking for the language server
+  | 'connected'
+  | 'degraded' // Recent polls failed; showing the last good data
+  | 'disconnected'
+  | 'auth-required';
+
+export interface ConnectionState {
+  kind: ConnectionStateKind;
+  error?: QuotaCheckerError;
+  consecutiveFailures: number;
+  since: number;
+  lastSuccessAt?: number;
+}
+
+/**
+ * User-facing explanation of a connection error
+ */
+export interface ConnectionErrorInfo {
+  title: string;
+  detail: string;
+  action: { label: string; command: string };
+}
+
+// Consecutive failures before giving up on finding a connection
+const MAX_FAILURES = 3;
+
+const RETRY_ACTION = { label: 'Retry', command: 'quota-checker.refresh' };
+const DIAGNOSTICS_ACTION = {
+  label: 'Run Diagnostics',
+  command: 'quota-checker.runDiagnostics',
+};
+
+/**
+ * Explain an error and suggest the action most likely to fix it
+ */
+export function describeConnectionError(err: Error): ConnectionErrorInfo {
+  const e = toQuotaCheckerError(err);
+
+  switch (e.code) {
+    case 'process-not-found':
+      return {
+        title: 'Server not running',
+        detail:
+          'No Antigravity language server was found. Start Antigravity and Quota Checker will reconnect automatically.',
+        action: RETRY_ACTION,
+      };
+    case 'not-authenticated':
+      return {
+        title: 'Not signed in',
+        detail: 'Sign in to Antigravity to see your quota.',
+        action: RETRY_ACTION,
+      };
+    case 'no-ports':
+    case 'endpoint-not-found':
+      return {
+        title: "Can't reach language server",
+        detail: `Antigravity is running but its Connect API couldn't be found: ${e.message}`,
+        action: DIAGNOSTICS_ACTION,
+      };
+    case 'rpc-failed':
+      return {
+        title: 'Request failed',
+        detail: e.message,
+        action: DIAGNOSTICS_ACTION,
+      };
+    default:
+      return {
+        title: 'Error',
+        detail: e.message,
+        action: DIAGNOSTICS_ACTION,
+      };
+  }
+}
+
+export class ConnectionStateMachine implements vscode.Disposable {
+  private state: ConnectionState = {
+    kind: 'starting',
+    consecutiveFailures: 0,
+    since: Date.now(),
+  };
+  private readonly changeEmitter = new vscode.EventEmitter<ConnectionState>();
+
+  /** Fires when the state kind or its error changes */
+  readonly onDidChange = this.changeEmitter.event;
+
+  /**
+   * @param staleAfterMs How long cached data may be shown after failures
+   */
+  constructor(private staleAfterMs: number) {}
+
+  setStaleAfter(staleAfterMs: number) {
+    this.staleAfterMs = staleAfterMs;
+    this.checkStaleness();
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * True while quota data is flowing (possibly stale)
+   */
+  isConnected(): boolean {
+    return this.state.kind === 'connected' || this.state.kind === 'degraded';
+  }
+
+  /**
+   * Begin the first connection attempt
+   */
+  beginDiscovery() {
+    if (this.state.kind === 'starting') {
+      this.transition('discovering', undefined, 0);
+    }
+  }
+
+  reportSuccess() {
+    this.state.lastSuccessAt = Date.now();
+    this.transition('connected', undefined, 0);
+  }
+
+  /**
+   * Record a failed fetch. A connection degrades first and only counts as
+   * disconnected once its data is older than the staleness window; while
+   * still searching, it gives up after repeated failures. A signed-out
+   * user is reported straight away.
+   */
+  reportFailure(err: Error) {
+    const e = toQuotaCheckerError(err);
+    const failures = this.state.consecutiveFailures + 1;
+
+    if (e instanceof NotAuthenticatedError) {
+      this.transition('auth-required', e, failures);
+    } else if (this.isConnected()) {
+      this.transition(
+        this.isStale() ? 'disconnected' : 'degraded',
+        e,
+        failures
+      );
+    } else if (failures >= MAX_FAILURES) {
+      this.transition('disconnected', e, failures);
+    } else {
+      this.transition(this.state.kind, e, failures);
+    }
+  }
+
+  /**
+   * Escalate a degraded connection once its data has gone stale.
+   * Call periodically, since polls back off while failing.
+   */
+  checkStaleness() {
+    if (this.state.kind === 'degraded' && this.isStale()) {
+      this.transition(
+        'disconnected',
+        this.state.error,
+        this.state.consecutiveFailures
+      );
+    }
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+
+  private isStale(): boolean {
+    return (
+      this.state.lastSuccessAt === undefined ||
+      Date.now() - this.state.lastSuccessAt >= this.staleAfterMs
+    );
+  }
+
+  private transition(
+    kind: ConnectionStateKind,
+    error: QuotaCheckerError | undefined,
+    consecutiveFailures: number
+  ) {
+    const previous = this.state;
+    const changed =
+      previous.kind !== kind ||
+      previous.error?.code !== error?.code ||
+      previous.error?.message !== error?.message;
+
+    this.state = {
+      kind,
+      error,
+      consecutiveFailures,
+      since: previous.kind === kind ? previous.since : Date.now(),
+      lastSuccessAt: previous.lastSuccessAt,
+    };
+    if (changed) {
+      this.changeEmitter.fire(this.state);
+    }
+  }
+}
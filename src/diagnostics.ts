@@ -0,0 +1,336 @@
+/**
+ * Connection diagnostics
+ * Runs each stage of the connection pipeline on its own and collects a
+ * copyable report with timings, log output and errors
+ */
+
+import * as vscode from 'vscode';
+import {
+  detectAntigravityProcesses,
+  AntigravityProcessInfo,
+} from './lib/local/process-detector';
+import { discoverPorts } from './lib/local/port-detective';
+import { probeForConnectAPIWithReport } from './lib/local/port-prober';
+import { ConnectClient, ConnectUserStatus } from './lib/local/connect-client';
+import { parseLocalQuotaSnapshot } from './lib/local/local-parser';
+import {
+  ProcessNotFoundError,
+  NoListeningPortsError,
+  EndpointNotFoundError,
+} from './lib/local/errors';
+import { getConfig } from './config';
+import { captureLog, info } from './logger';
+
+// Limit how many detected processes get the full treatment
+const MAX_PROCESSES = 3;
+
+export interface DiagnosticStage {
+  name: string;
+  status: 'ok' | 'failed' | 'skipped';
+  durationMs: number;
+  details: string[];
+  error?: string;
+  log: string[];
+}
+
+export interface DiagnosticsReport {
+  startedAt: string;
+  environment: string[];
+  stages: DiagnosticStage[];
+}
+
+/**
+ * Run one stage, capturing its log lines, timing and any error.
+ * The stage function returns detail lines, plus a value for later stages.
+ */
+async function runStage<T>(
+  stages: DiagnosticStage[],
+  name: string,
+  fn: (details: string[]) => Promise<T>
+): Promise<T | undefined> {
+  const stage: DiagnosticStage = {
+    name,
+    status: 'ok',
+    durationMs: 0,
+    details: [],
+    log: [],
+  };
+  stages.push(stage);
+
+  const start = Date.now();
+  try {
+    return await captureLog(stage.log, () => fn(stage.details));
+  } catch (err) {
+    stage.status = 'failed';
+    stage.error = err instanceof Error ? err.message : String(err);
+    return undefined;
+  } finally {
+    stage.durationMs = Date.now() - start;
+  }
+}
+
+function skipStage(stages: DiagnosticStage[], name: string, reason: string) {
+  stages.push({
+    name,
+    status: 'skipped',
+    durationMs: 0,
+    details: [reason],
+    log: [],
+  });
+}
+
+/**
+ * Run every diagnostic stage
+ */
+export async function runDiagnostics(
+  version: string
+): Promise<DiagnosticsReport> {
+  const stages: DiagnosticStage[] = [];
+  const manual = getConfig().manualEndpoint;
+
+  const report: DiagnosticsReport = {
+    startedAt: new Date().toISOString(),
+    environment: [
+      `Extension version: ${version}`,
+      `VS Code: ${vscode.version}`,
+      `Platform: ${process.platform} (${process.arch})`,
+      `Node: ${process.version}`,
+      `Endpoint mode: ${manual.baseUrl ? `manual (${manual.baseUrl})` : 'auto-discovery'}`,
+    ],
+    stages,
+  };
+
+  if (manual.baseUrl) {
+    skipStage(stages, 'Process detection', 'Manual endpoint configured');
+    await runRpcStages(
+      stages,
+      '',
+      manual.baseUrl,
+      manual.csrfToken || undefined
+    );
+    return report;
+  }
+
+  const processes = await runStage(
+    stages,
+    'Process detection',
+    async (details) => {
+      const found = await detectAntigravityProcesses();
+      if (found.length === 0) {
+        throw new ProcessNotFoundError();
+      }
+      for (const p of found) {
+        details.push(
+          `PID ${p.pid}: csrf token ${p.csrfToken ? 'present' : 'missing'}, extension server port ${p.extensionServerPort ?? 'none'}`
+        );
+        details.push(`  ${redactCommandLine(p.commandLine)}`);
+      }
+      return found;
+    }
+  );
+
+  if (!processes) {
+    return report;
+  }
+
+  for (const processInfo of processes.slice(0, MAX_PROCESSES)) {
+    await runProcessStages(stages, processInfo);
+  }
+  if (processes.length > MAX_PROCESSES) {
+    skipStage(
+      stages,
+      'Remaining processes',
+      `${processes.length - MAX_PROCESSES} more process(es) not checked`
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Port discovery, probing, RPC call and parsing for one process
+ */
+async function runProcessStages(
+  stages: DiagnosticStage[],
+  processInfo: AntigravityProcessInfo
+) {
+  const prefix = `[PID ${processInfo.pid}] `;
+
+  const ports = await runStage(
+    stages,
+    `${prefix}Port discovery`,
+    async (details) => {
+      const found = await discoverPorts(processInfo.pid);
+      if (found.length === 0) {
+        throw new NoListeningPortsError(processInfo.pid);
+      }
+      details.push(`Listening ports: ${found.join(', ')}`);
+      return found;
+    }
+  );
+  if (!ports) return;
+
+  const endpoint = await runStage(
+    stages,
+    `${prefix}Endpoint probing`,
+    async (details) => {
+      const probe = await probeForConnectAPIWithReport(
+        ports,
+        processInfo.csrfToken
+      );
+      for (const a of probe.attempts) {
+        details.push(
+          `${a.accepted ? '✓' : '✗'} ${a.protocol}://127.0.0.1:${a.port} ${a.rpc} (${a.durationMs}ms): ${a.reason}`
+        );
+      }
+      if (!probe.result) {
+        throw new EndpointNotFoundError();
+      }
+      details.push(`Selected: ${probe.result.baseUrl}`);
+      return probe.result;
+    }
+  );
+  if (!endpoint) return;
+
+  await runRpcStages(stages, prefix, endpoint.baseUrl, processInfo.csrfToken);
+}
+
+/**
+ * GetUserStatus call and snapshot parsing against a known endpoint
+ */
+async function runRpcStages(
+  stages: DiagnosticStage[],
+  prefix: string,
+  baseUrl: string,
+  csrfToken?: string
+) {
+  const userStatus = await runStage(
+    stages,
+    `${prefix}GetUserStatus`,
+    async (details): Promise<ConnectUserStatus> => {
+      const client = new ConnectClient(baseUrl, csrfToken);
+      const status = await client.getUserStatus();
+      details.push(`Endpoint: ${baseUrl}`);
+      details.push(`Email: ${status.email ?? '(none)'}`);
+      details.push(`Plan: ${status.planType ?? '(not reported)'}`);
+      details.push(
+        `Authenticated: ${status.isAuthenticated ?? '(not reported)'}`
+      );
+      return status;
+    }
+  );
+  if (!userStatus) return;
+
+  await runStage(stages, `${prefix}Parsing`, async (details) => {
+    const snapshot = parseLocalQuotaSnapshot(userStatus);
+    details.push(`Models: ${snapshot.models.length}`);
+    for (const m of snapshot.models) {
+      const pct =
+        m.remainingPercentage !== undefined
+          ? `${Math.round(m.remainingPercentage * 100)}%`
+          : 'unknown';
+      details.push(
+        `  ${m.label} (${m.modelId}): ${pct}${m.isExhausted ? ', exhausted' : ''}${m.resetTime ? `, resets ${m.resetTime}` : ''}`
+      );
+    }
+    if (snapshot.promptCredits) {
+      details.push(
+        `Prompt credits: ${snapshot.promptCredits.available} / ${snapshot.promptCredits.monthly}`
+      );
+    }
+    if (snapshot.models.length === 0) {
+      throw new Error('Response contained no models');
+    }
+  });
+}
+
+/**
+ * Render a report as Markdown
+ */
+export function formatDiagnosticsReport(report: DiagnosticsReport): string {
+  const icon = { ok: '✅', failed: '❌', skipped: '⏭️' };
+  const lines: string[] = [
+    '# Quota Checker Diagnostics',
+    '',
+    `Run at ${report.startedAt}`,
+    '',
+    '## Environment',
+    '',
+    ...report.environment.map((e) => `- ${e}`),
+    '',
+    '## Stages',
+  ];
+
+  for (const stage of report.stages) {
+    lines.push(
+      '',
+      `### ${icon[stage.status]} ${stage.name} (${stage.durationMs}ms)`,
+      ''
+    );
+    if (stage.error) {
+      lines.push(`**Error:** ${stage.error}`, '');
+    }
+    if (stage.details.length > 0) {
+      lines.push('```', ...stage.details, '```');
+    }
+    if (stage.log.length > 0) {
+      lines.push(
+        '',
+        '<details><summary>Log output</summary>',
+        '',
+        '```',
+        ...stage.log.map(redactCommandLine),
+        '```',
+        '',
+        '</details>'
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Run diagnostics and open the report in an untitled Markdown document
+ */
+export async function showDiagnostics(version: string): Promise<void> {
+  info('Running diagnostics...');
+
+  const report = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: 'Quota Checker: Running diagnostics...',
+    },
+    () => runDiagnostics(version)
+  );
+  const content = formatDiagnosticsReport(report);
+
+  const doc = await vscode.workspace.openTextDocument({
+    language: 'markdown',
+    content,
+  });
+  await vscode.window.showTextDocument(doc, { preview: false });
+
+  const failed = report.stages.filter((s) => s.status === 'failed').length;
+  info(`Diagnostics finished: ${failed} failed stage(s)`);
+
+  const action = await vscode.window.showInformationMessage(
+    failed > 0
+      ? `Quota Checker: Diagnostics found ${failed} failing stage(s).`
+      : 'Quota Checker: All diagnostic stages passed.',
+    'Copy Report'
+  );
+  if (action === 'Copy Report') {
+    await vscode.env.clipboard.writeText(content);
+  }
+}
+
+/**
+ * Hide CSRF tokens so the report is safe to share
+ */
+function redactCommandLine(text: string): string {
+  return text.replace(
+    /(--csrf_token(?:=|\s+))("[^"]*"|'[^']*'|\S+)/gi,
+    '$1<redacted>'
+  );
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import type { QuotaService } from './quota-service';
+import { getConfig, setManualEndpoint } from './config';
+import { getOutputChannel, info, error } from './logger';
+
+/**
+ * Apply the manual endpoint from settings to the quota service.
+ * Returns true if the endpoint changed.
+ */
+export function applyManualEndpoint(quotaService: QuotaService): boolean {
+  const { baseUrl, csrfToken } = getConfig().manualEndpoint;
+  return quotaService.setManualEndpoint(
+    baseUrl ? { baseUrl, csrfToken: csrfToken || undefined } : null
+  );
+}
+
+/**
+ * Register commands for attaching to a known language server URL and
+ * testing the connection
+ */
+export function registerEndpointCommands(
+  quotaService: QuotaService
+): vscode.Disposable[] {
+  const attach = vscode.commands.registerCommand(
+    'quota-checker.attachToUrl',
+    async () => {
+      const current = getConfig().manualEndpoint;
+
+      const baseUrl = await vscode.window.showInputBox({
+        title: 'Attach to Language Server',
+        prompt: 'Base URL of the Antigravity language server',
+        placeHolder: 'https://127.0.0.1:42100',
+        value: current.baseUrl,
+        ignoreFocusOut: true,
+        validateInput: validateBaseUrl,
+      });
+      if (baseUrl === undefined) return;
+
+      const csrfToken = await vscode.window.showInputBox({
+        title: 'Attach to Language Server',
+        prompt:
+          'CSRF token (the --csrf_token argument of the language server). Leave empty if not required.',
+        value: current.csrfToken,
+        password: true,
+        ignoreFocusOut: true,
+      });
+      if (csrfToken === undefined) return;
+
+      await setManualEndpoint({
+        baseUrl: baseUrl.trim(),
+        csrfToken: csrfToken.trim(),
+      });
+      info(`Attached to manual endpoint ${baseUrl.trim()}`);
+    }
+  );
+
+  const detach = vscode.commands.registerCommand(
+    'quota-checker.detachFromUrl',
+    async () => {
+      await setManualEndpoint({ baseUrl: '', csrfToken: '' });
+      info('Manual endpoint cleared, using auto-discovery');
+      vscode.window.showInformationMessage(
+        'Quota Checker: Using auto-discovery.'
+      );
+    }
+  );
+
+  const test = vscode.commands.registerCommand(
+    'quota-checker.testConnection',
+    async () => {
+      const output = getOutputChannel();
+
+      try {
+        const result = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Quota Checker: Testing connection...',
+          },
+          () => quotaService.testConnection()
+        );
+
+        const { userStatus } = result;
+        const modelCount = userStatus.quota?.models?.length ?? 0;
+        output.appendLine('--- Test connection ---');
+        output.appendLine(
+          `Source: ${result.source}${result.pid ? ` (PID ${result.pid})` : ''}`
+        );
+        output.appendLine(`Endpoint: ${result.baseUrl}`);
+        output.appendLine(`Duration: ${result.durationMs}ms`);
+        output.appendLine(`Email: ${userStatus.email ?? '(none)'}`);
+        output.appendLine(`Plan: ${userStatus.planType ?? '(not reported)'}`);
+        output.appendLine(
+          `Authenticated: ${userStatus.isAuthenticated ?? '(not reported)'}`
+        );
+        output.appendLine(`Models: ${modelCount}`);
+        output.appendLine('GetUserStatus response:');
+        output.appendLine(JSON.stringify(userStatus.raw, null, 2));
+
+        const action =
+          userStatus.isAuthenticated === false
+            ? await vscode.window.showWarningMessage(
+                `Quota Checker: Reached ${result.baseUrl} in ${result.durationMs}ms, but Antigravity is signed out.`,
+                'Show Output'
+              )
+            : await vscode.window.showInformationMessage(
+                `Quota Checker: Connected to ${result.baseUrl} in ${result.durationMs}ms — ${userStatus.email ?? 'no email'}, ${modelCount} models.`,
+                'Show Output'
+              );
+        if (action === 'Show Output') output.show();
+      } catch (err) {
+        const e = err instanceof Error ? err : new Error(String(err));
+        error(`Test connection failed: ${e.message}`);
+        const action = await vscode.window.showErrorMessage(
+          `Quota Checker: Connection test failed: ${e.message}`,
+          'Show Output'
+        );
+        if (action === 'Show Output') output.show();
+      }
+    }
+  );
+
+  return [attach, detach, test];
+}
+
+/**
+ * Validate a base URL entered by the user
+ */
+function validateBaseUrl(value: string): string | undefined {
+  if (!value.trim()) {
+    return 'Enter a URL, e.g. https://127.0.0.1:42100';
+  }
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'URL must start with http:// or https://';
+    }
+  } catch {
+    return 'Not a valid URL';
+  }
+  return undefined;
+}
@@ -2,20 +2,50 @@ import * as vscode from 'vscode';
 import { QuotaService } from './quota-service';
 import { StatusBarManager } from './status-bar';
 import { QuotaWebviewPanel } from './webview/panel';
-import { getAllStoredAccounts } from './storage/quota-storage';
+import { QuotaNotifier } from './notifications';
+import {
+  AdaptivePollingScheduler,
+  PollOutcome,
+  PollingOptions,
+} from './polling-scheduler';
+import {
+  getConfig,
+  onDidChangeConfig,
+  resolveStatusBarModels,
+  formatInterval,
+} from './config';
+import type { QuotaSnapshot } from './lib/quota/types';
+import { ModelCatalog } from './lib/quota/model-catalog';
+import { getAllStoredAccounts, watchQuotaStore } from './storage/quota-storage';
+import { showDiagnostics } from './diagnostics';
+import {
+  applyManualEndpoint,
+  registerEndpointCommands,
+} from './endpoint-commands';
+import { ConnectionStateMachine, ConnectionState } from './connection-state';
+import { toQuotaCheckerError } from './lib/local/errors';
 import { getOutputChannel, info, error } from './logger';
 
 let quotaService: QuotaService;
 let statusBar: StatusBarManager;
-let pollingInterval: NodeJS.Timeout | undefined;
-let startupRetryInterval: NodeJS.Timeout | undefined;
+let notifier: QuotaNotifier;
+let scheduler: AdaptivePollingScheduler;
+let connection: ConnectionStateMachine;
+let isReconnecting = false;
+let ageTicker: NodeJS.Timeout | undefined;
 let extensionContext: vscode.ExtensionContext;
 let isIntensiveMode = false;
-let isConnected = false;
-let isStartupRetrying = false;
 
-// Startup retry interval (5 seconds)
-const STARTUP_RETRY_MS = 5000;
+// First reconnect delay while not connected (5 seconds); failures back off
+// from here up to RECONNECT_MAX_MS
+const RECONNECT_BASE_MS = 5000;
+
+// Longest wait between reconnect attempts, so a reopened Antigravity is
+// picked up within a minute (not the polling maxInterval)
+const RECONNECT_MAX_MS = 60 * 1000;
+
+// Refresh ages and reset countdowns in the status bar this often
+const AGE_TICK_MS = 60 * 1000;
 
 // State key for persisting selected models
 const SELECTED_MODELS_KEY = 'quota-checker.selectedModels';
@@ -27,147 +57,299 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Initialize services
   quotaService = new QuotaService();
-  statusBar = new StatusBarManager();
+  statusBar = new StatusBarManager(
+    getConfig().statusBar,
+    new ModelCatalog(getConfig().modelCatalog)
+  );
+  notifier = new QuotaNotifier(context.globalState);
+  scheduler = new AdaptivePollingScheduler(fetchQuota);
+  connection = new ConnectionStateMachine(getConfig().staleAfterMs);
+  connection.onDidChange(handleConnectionChange);
+  applyManualEndpoint(quotaService);
 
-  // Register command
+  // Register commands
   const openDashboard = vscode.commands.registerCommand(
     'quota-checker.openDashboard',
-    () => {
+    (modelId?: string) => {
       const panel = QuotaWebviewPanel.createOrShow(
         context.extensionUri,
         fetchQuota,
         handleToggleModel,
         handleSetInterval
       );
+      const snapshot = quotaService.getCached();
       panel.update(
-        quotaService.getCached(),
+        getDisplaySnapshot(),
         quotaService.getLastError() ?? undefined,
-        getSelectedModels(),
-        isIntensiveMode
+        getSelectedModels(snapshot),
+        isIntensiveMode,
+        undefined,
+        quotaService.getCachedAll()
       );
+      // Opened from a per-model status bar item
+      if (typeof modelId === 'string') {
+        panel.focusModel(modelId);
+      }
       // Also refresh when opening dashboard
       fetchQuota();
     }
   );
 
+  const resetNotifications = vscode.commands.registerCommand(
+    'quota-checker.resetNotifications',
+    async () => {
+      await notifier.resetPreferences();
+      vscode.window.showInformationMessage(
+        'Quota Checker: Notification snooze and muted models cleared.'
+      );
+    }
+  );
+
+  const refresh = vscode.commands.registerCommand(
+    'quota-checker.refresh',
+    () => {
+      quotaService.requestRescan();
+      return fetchQuota();
+    }
+  );
+
+  const runDiagnostics = vscode.commands.registerCommand(
+    'quota-checker.runDiagnostics',
+    () => showDiagnostics(context.extension.packageJSON.version ?? 'unknown')
+  );
+
   // Show "Starting..." first, then begin connection attempts after 3 seconds
   statusBar.showStarting();
   setTimeout(() => {
-    startStartupRetry();
+    connection.beginDiscovery();
+    scheduler.runNow();
   }, 3000);
 
   context.subscriptions.push(openDashboard);
+  context.subscriptions.push(resetNotifications);
+  context.subscriptions.push(refresh);
+  context.subscriptions.push(runDiagnostics);
+  context.subscriptions.push(...registerEndpointCommands(quotaService));
+  context.subscriptions.push(onDidChangeConfig(handleConfigChange));
+  context.subscriptions.push(watchQuotaStore(handleStoreChange));
   context.subscriptions.push(statusBar);
-  context.subscriptions.push({
-    dispose: () => {
-      if (startupRetryInterval) {
-        clearInterval(startupRetryInterval);
-      }
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-      }
-    },
-  });
+  context.subscriptions.push(scheduler);
+  context.subscriptions.push(connection);
+  context.subscriptions.push({ dispose: stopAgeTicker });
 
   info('Extension activated successfully');
 }
 
 /**
- * Get selected models from global state
+ * Get models explicitly ticked in the dashboard (from global state)
  */
-function getSelectedModels(): string[] {
+function getStoredSelectedModels(): string[] {
   return extensionContext.globalState.get<string[]>(SELECTED_MODELS_KEY, []);
 }
 
 /**
- * Start the startup retry loop.
- * Polls every 5 seconds until Antigravity is detected, then transitions to normal polling.
+ * Get the models to show in the status bar.
+ * Dashboard selections win; otherwise fall back to the `statusBarModels`
+ * keywords from settings.
  */
-async function startStartupRetry() {
-  info('Starting startup retry loop (5s interval)...');
-  isStartupRetrying = true;
-  statusBar.showConnecting();
-
-  // Initial attempt
-  const success = await attemptConnection();
-  if (success) {
-    transitionToNormalPolling();
-    return;
-  }
+function getSelectedModels(snapshot: QuotaSnapshot | null): string[] {
+  return resolveStatusBarModels(
+    snapshot?.models ?? [],
+    getStoredSelectedModels(),
+    getConfig().statusBarModels
+  );
+}
 
-  // Keep showing "Connecting" after initial failure
-  statusBar.showConnecting();
+/**
+ * Switch the scheduler between polling and reconnecting as the connection
+ * comes and goes, and show the new state in the status bar
+ */
+function handleConnectionChange(state: ConnectionState) {
+  info(
+    `Connection state: ${state.kind}${state.error ? ` (${state.error.message})` : ''}`
+  );
 
-  // Start retry interval
-  startupRetryInterval = setInterval(async () => {
-    const success = await attemptConnection();
-    if (success) {
-      transitionToNormalPolling();
-    } else {
-      // Maintain "Connecting" state during retries
-      statusBar.showConnecting();
+  if (connection.isConnected()) {
+    if (isReconnecting || !scheduler.isRunning()) {
+      // Forget the reconnect backoff so polling starts at its own interval
+      isReconnecting = false;
+      scheduler.stop();
+      startPolling();
     }
-  }, STARTUP_RETRY_MS);
+  } else if (state.kind !== 'starting' && !isReconnecting) {
+    startReconnecting();
+  }
+
+  // Keep ages ("7m ago", "· 7m old") and "Resets in" countdowns current
+  // while data is shown; polls can be half an hour apart
+  if (connection.isConnected()) {
+    ageTicker ??= setInterval(() => {
+      connection.checkStaleness();
+      updateStatusBar(getSelectedModels(quotaService.getCached()));
+    }, AGE_TICK_MS);
+  } else {
+    stopAgeTicker();
+  }
+
+  updateStatusBar(getSelectedModels(quotaService.getCached()));
+}
+
+function stopAgeTicker() {
+  if (ageTicker) {
+    clearInterval(ageTicker);
+    ageTicker = undefined;
+  }
 }
 
 /**
- * Attempt to connect to Antigravity. Returns true on success.
+ * Snapshot to show in views: the last good one while connected (possibly
+ * stale), nothing once the connection is lost
  */
-async function attemptConnection(): Promise<boolean> {
-  try {
-    await quotaService.getQuota();
-    isConnected = true;
-    info('Successfully connected to Antigravity');
-    return true;
-  } catch {
-    // Still waiting for Antigravity
-    return false;
+function getDisplaySnapshot(): QuotaSnapshot | null {
+  return connection.isConnected() ? quotaService.getCached() : null;
+}
+
+/**
+ * Render the status bar for the current connection state
+ */
+function updateStatusBar(selectedModels: string[]) {
+  const state = connection.getState();
+
+  switch (state.kind) {
+    case 'starting':
+      statusBar.showStarting();
+      break;
+    case 'discovering':
+      statusBar.showConnecting();
+      break;
+    case 'connected':
+    case 'degraded':
+      statusBar.update(quotaService.getCached(), selectedModels, state.error);
+      break;
+    case 'disconnected':
+    case 'auth-required':
+      if (state.error) {
+        statusBar.showDisconnected(state.error);
+      }
+      break;
   }
 }
 
 /**
- * Transition from startup retry to normal polling.
+ * Build scheduler options from settings and the current polling mode
  */
-async function transitionToNormalPolling() {
-  if (startupRetryInterval) {
-    clearInterval(startupRetryInterval);
-    startupRetryInterval = undefined;
+function getPollingOptions(): PollingOptions {
+  const config = getConfig();
+  const baseIntervalMs = isIntensiveMode
+    ? config.intensivePollingInterval
+    : config.pollingInterval;
+  return {
+    baseIntervalMs,
+    fastIntervalMs: config.intensivePollingInterval,
+    maxIntervalMs: config.adaptivePolling.maxInterval,
+    adaptive: config.adaptivePolling.enabled,
+  };
+}
+
+/**
+ * Scheduler options while not connected: each failed attempt doubles the
+ * delay from 5 seconds up to a minute, so a long-dead language server isn't
+ * rescanned every few seconds
+ */
+function getReconnectOptions(): PollingOptions {
+  return {
+    baseIntervalMs: RECONNECT_BASE_MS,
+    fastIntervalMs: RECONNECT_BASE_MS,
+    maxIntervalMs: RECONNECT_MAX_MS,
+    adaptive: false,
+  };
+}
+
+/**
+ * Retry until Antigravity answers; polling takes over once connected
+ * (see handleConnectionChange). Failures counted while degraded carry over.
+ */
+function startReconnecting() {
+  isReconnecting = true;
+  if (scheduler.isRunning()) {
+    scheduler.setOptions(getReconnectOptions());
+  } else {
+    scheduler.start(getReconnectOptions());
   }
-  isStartupRetrying = false;
+  info('Reconnecting with backoff');
+}
 
-  // Update UI with already-fetched data (from successful attemptConnection)
-  const snapshot = quotaService.getCached();
-  const selectedModels = getSelectedModels();
-  const storedAccounts = await getAllStoredAccounts();
+/**
+ * Start or restart polling with current interval setting
+ */
+function startPolling() {
+  const options = getPollingOptions();
+  scheduler.start(options);
+  info(
+    `Polling started: ${formatInterval(options.baseIntervalMs)} (${isIntensiveMode ? 'intensive' : 'normal'}${options.adaptive ? ', adaptive' : ''})`
+  );
+}
 
-  // Update status bar and webview with cached data
-  if (snapshot) {
-    statusBar.update(snapshot, selectedModels);
-    QuotaWebviewPanel.updateCurrent(
-      snapshot,
-      undefined,
-      selectedModels,
-      isIntensiveMode,
-      storedAccounts
+/**
+ * Apply changed settings: restart polling and re-render with the new
+ * status bar model defaults
+ */
+async function handleConfigChange() {
+  info('Configuration changed, reloading settings');
+
+  // Switching between a manual endpoint and auto-discovery: fetch right away
+  if (applyManualEndpoint(quotaService)) {
+    fetchQuota();
+  }
+
+  if (scheduler.isRunning()) {
+    scheduler.setOptions(
+      isReconnecting ? getReconnectOptions() : getPollingOptions()
     );
   }
+  connection.setStaleAfter(getConfig().staleAfterMs);
+  statusBar.setConfig(
+    getConfig().statusBar,
+    new ModelCatalog(getConfig().modelCatalog)
+  );
 
-  // Start normal polling
-  startPolling();
-  info('Transitioned to normal polling mode');
+  const snapshot = quotaService.getCached();
+  const err = quotaService.getLastError() ?? undefined;
+  const selectedModels = getSelectedModels(snapshot);
+  const storedAccounts = await getAllStoredAccounts();
+
+  updateStatusBar(selectedModels);
+  QuotaWebviewPanel.updateCurrent(
+    getDisplaySnapshot(),
+    err,
+    selectedModels,
+    isIntensiveMode,
+    storedAccounts,
+    quotaService.getCachedAll()
+  );
 }
 
 /**
- * Start or restart polling with current interval setting
+ * Another window stored new account data: refresh the stored accounts on
+ * the dashboard without waiting for the next poll. A newer reading of this
+ * window's account also updates the status bar and notifications.
  */
-function startPolling() {
-  if (pollingInterval) {
-    clearInterval(pollingInterval);
+async function handleStoreChange() {
+  const storedAccounts = await getAllStoredAccounts();
+  const snapshot = quotaService.applyStoredAccounts(storedAccounts);
+  const selectedModels = getSelectedModels(quotaService.getCached());
+
+  if (snapshot) {
+    updateStatusBar(selectedModels);
+    notifier.check(snapshot, selectedModels);
   }
-  const intervalMs = isIntensiveMode ? 60 * 1000 : 300 * 1000;
-  pollingInterval = setInterval(fetchQuota, intervalMs);
-  info(
-    `Polling started: ${isIntensiveMode ? '60s (intensive)' : '5m (normal)'}`
+  QuotaWebviewPanel.updateCurrent(
+    getDisplaySnapshot(),
+    quotaService.getLastError() ?? undefined,
+    selectedModels,
+    undefined,
+    storedAccounts,
+    quotaService.getCachedAll()
   );
 }
 
@@ -176,30 +358,35 @@ function startPolling() {
  */
 async function handleSetInterval(intensive: boolean) {
   isIntensiveMode = intensive;
-  startPolling();
+  // While reconnecting, polling picks up the new mode once reconnected
+  if (scheduler.isRunning() && !isReconnecting) {
+    startPolling();
+  }
 
   // Update webview to reflect new mode
   const snapshot = quotaService.getCached();
   const err = quotaService.getLastError() ?? undefined;
   const storedAccounts = await getAllStoredAccounts();
   QuotaWebviewPanel.updateCurrent(
-    snapshot,
+    getDisplaySnapshot(),
     err,
-    getSelectedModels(),
+    getSelectedModels(snapshot),
     isIntensiveMode,
-    storedAccounts
+    storedAccounts,
+    quotaService.getCachedAll()
   );
 
-  info(
-    `Polling mode changed to ${intensive ? 'intensive (60s)' : 'normal (5m)'}`
-  );
+  info(`Polling mode changed to ${intensive ? 'intensive' : 'normal'}`);
 }
 
 /**
  * Handle toggle model checkbox from webview
  */
 async function handleToggleModel(modelId: string, selected: boolean) {
-  const current = getSelectedModels();
+  // Start from the effective selection so ticking a box while the keyword
+  // defaults are active keeps the other defaulted models selected
+  const snapshot = quotaService.getCached();
+  const current = getSelectedModels(snapshot);
   let updated: string[];
 
   if (selected) {
@@ -210,24 +397,22 @@ async function handleToggleModel(modelId: string, selected: boolean) {
     updated = current.filter((id) => id !== modelId);
   }
 
-  // Persist
-  extensionContext.globalState.update(SELECTED_MODELS_KEY, updated);
+  // Persist (an empty selection falls back to the keyword defaults)
+  await extensionContext.globalState.update(SELECTED_MODELS_KEY, updated);
+  updated = getSelectedModels(snapshot);
 
   // Update UI immediately
-  const snapshot = quotaService.getCached();
   const err = quotaService.getLastError() ?? undefined;
   const storedAccounts = await getAllStoredAccounts();
 
-  // Skip status bar update during startup retry
-  if (!isStartupRetrying) {
-    statusBar.update(snapshot, updated, err);
-  }
+  updateStatusBar(updated);
   QuotaWebviewPanel.updateCurrent(
-    snapshot,
+    getDisplaySnapshot(),
     err,
     updated,
     isIntensiveMode,
-    storedAccounts
+    storedAccounts,
+    quotaService.getCachedAll()
   );
 
   info(
@@ -235,50 +420,96 @@ async function handleToggleModel(modelId: string, selected: boolean) {
   );
 }
 
-async function fetchQuota() {
-  const selectedModels = getSelectedModels();
+/**
+ * Fetch quota and update all views.
+ * Returns the poll outcome used by the adaptive scheduler.
+ */
+async function fetchQuota(): Promise<PollOutcome> {
+  const previous = quotaService.getCached();
 
   try {
     const snapshot = await quotaService.getQuota();
+    const selectedModels = getSelectedModels(snapshot);
     info(`Fetched quota: ${snapshot.models.length} models`);
+    connection.reportSuccess();
 
     // Load all stored accounts for webview
     const storedAccounts = await getAllStoredAccounts();
 
-    // Update UI (skip status bar during startup retry)
-    if (!isStartupRetrying) {
-      statusBar.update(snapshot, selectedModels);
-    }
+    // Update UI
+    updateStatusBar(selectedModels);
+    notifier.check(snapshot, selectedModels);
     QuotaWebviewPanel.updateCurrent(
       snapshot,
       undefined,
       selectedModels,
       isIntensiveMode,
-      storedAccounts
+      storedAccounts,
+      quotaService.getCachedAll()
     );
+
+    return getPollOutcome(previous, snapshot, selectedModels);
   } catch (err) {
-    const e = err instanceof Error ? err : new Error(String(err));
+    const e = toQuotaCheckerError(err);
     error(`Fetch failed: ${e.message}`);
+    connection.reportFailure(e);
+    const selectedModels = getSelectedModels(quotaService.getCached());
 
     // Load stored accounts even on error
     const storedAccounts = await getAllStoredAccounts();
 
-    // Update UI with error (skip status bar during startup retry)
-    if (!isStartupRetrying) {
-      statusBar.update(null, selectedModels, e);
-    }
+    // Update UI with error, keeping the last good data until it's stale
+    updateStatusBar(selectedModels);
     QuotaWebviewPanel.updateCurrent(
-      null,
+      getDisplaySnapshot(),
       e,
       selectedModels,
       isIntensiveMode,
-      storedAccounts
+      storedAccounts,
+      quotaService.getCachedAll()
     );
+
+    return { failed: true, changed: false, lowQuota: false, nearReset: false };
   }
 }
 
+/**
+ * Summarise a successful poll for the adaptive scheduler
+ */
+function getPollOutcome(
+  previous: QuotaSnapshot | null,
+  snapshot: QuotaSnapshot,
+  selectedModels: string[]
+): PollOutcome {
+  const { lowQuotaThreshold, nearResetMs } = getConfig().adaptivePolling;
+
+  const changed =
+    !previous ||
+    previous.models.length !== snapshot.models.length ||
+    snapshot.models.some((m) => {
+      const old = previous.models.find((p) => p.modelId === m.modelId);
+      return (
+        !old ||
+        old.remainingPercentage !== m.remainingPercentage ||
+        old.resetTime !== m.resetTime
+      );
+    });
+
+  const selected = snapshot.models.filter((m) =>
+    selectedModels.includes(m.modelId)
+  );
+  const lowQuota = selected.some(
+    (m) =>
+      m.remainingPercentage !== undefined &&
+      m.remainingPercentage * 100 <= lowQuotaThreshold
+  );
+  const nearReset = selected.some(
+    (m) => m.timeUntilResetMs !== undefined && m.timeUntilResetMs <= nearResetMs
+  );
+
+  return { failed: false, changed, lowQuota, nearReset };
+}
+
 export function deactivate() {
-  if (pollingInterval) {
-    clearInterval(pollingInterval);
-  }
+  scheduler?.stop();
 }
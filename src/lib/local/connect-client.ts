@@ -5,11 +5,13 @@
 import https from 'https';
 import http from 'http';
 import { debug } from '../../logger';
+import { RpcError, NotAuthenticatedError } from './errors';
 
 export interface ConnectUserStatus {
   // Basic status fields
   isAuthenticated?: boolean;
   email?: string;
+  planType?: string; // Plan name from planStatus.planInfo, e.g. "Pro"
 
   // Quota information (structure may vary based on actual API)
   quota?: {
@@ -53,6 +55,30 @@ export interface ConnectModelInfo {
   isExhausted?: boolean;
 }
 
+/**
+ * The user status fields of a GetUserStatus response
+ * Normally nested under 'userStatus'; some replies (e.g. signed out) are flat.
+ * Returns undefined if the response isn't a JSON object.
+ */
+export function getUserStatusFields(
+  response: unknown
+): Record<string, unknown> | undefined {
+  if (
+    typeof response !== 'object' ||
+    response === null ||
+    Array.isArray(response)
+  ) {
+    return undefined;
+  }
+  const data = response as Record<string, unknown>;
+  const nested = data.userStatus;
+  return typeof nested === 'object' &&
+    nested !== null &&
+    !Array.isArray(nested)
+    ? (nested as Record<string, unknown>)
+    : data;
+}
+
 export class ConnectClient {
   private baseUrl: string;
   private csrfToken: string | undefined;
@@ -72,35 +98,53 @@ export class ConnectClient {
   /**
    * Get user status including quota information
    * Uses Connect RPC protocol to communicate with Antigravity language server
+   * @throws NotAuthenticatedError if the user is signed out
    */
   async getUserStatus(): Promise<ConnectUserStatus> {
+    const status = await this.fetchUserStatus();
+
+    if (status.isAuthenticated === false) {
+      throw new NotAuthenticatedError();
+    }
+    return status;
+  }
+
+  /**
+   * Call GetUserStatus and parse whatever came back, signed out or not
+   * (for Test Connection, which reports the raw response)
+   */
+  async fetchUserStatus(): Promise<ConnectUserStatus> {
     debug('connect-client', 'Fetching user status via Connect RPC');
 
     // Use the correct Connect RPC endpoint
     const endpoint =
       '/exa.language_server_pb.LanguageServerService/GetUserStatus';
 
+    let response: unknown;
     try {
-      const response = await this.request('POST', endpoint, {
+      response = await this.request('POST', endpoint, {
         metadata: {
           ideName: 'antigravity',
           extensionName: 'antigravity',
           locale: 'en',
         },
       });
-
-      if (response) {
-        debug('connect-client', `Got response from ${endpoint}`);
-        return this.parseUserStatus(response);
-      }
     } catch (err) {
       debug('connect-client', `Connect RPC call failed: ${err}`);
-      throw new Error(
-        `Failed to fetch user status: ${err instanceof Error ? err.message : 'Unknown error'}`
+      throw new RpcError(
+        `Failed to fetch user status: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        err instanceof RpcError ? err.statusCode : undefined
       );
     }
 
-    throw new Error('Could not fetch user status from Connect RPC endpoint');
+    if (!response) {
+      throw new RpcError(
+        'Could not fetch user status from Connect RPC endpoint'
+      );
+    }
+
+    debug('connect-client', `Got response from ${endpoint}`);
+    return this.parseUserStatus(response);
   }
 
   /**
@@ -154,9 +198,11 @@ export class ConnectClient {
             }
           } else if (res.statusCode === 404) {
             // Endpoint not found, try next
-            reject(new Error(`Endpoint not found: ${path}`));
+            reject(new RpcError(`Endpoint not found: ${path}`, 404));
           } else {
-            reject(new Error(`HTTP ${res.statusCode}: ${data}`));
+            reject(
+              new RpcError(`HTTP ${res.statusCode}: ${data}`, res.statusCode)
+            );
           }
         });
       });
@@ -167,7 +213,7 @@ export class ConnectClient {
 
       req.on('timeout', () => {
         req.destroy();
-        reject(new Error('Request timed out'));
+        reject(new RpcError('Request timed out'));
       });
 
       if (body) {
@@ -188,15 +234,11 @@ export class ConnectClient {
       raw: response,
     };
 
-    if (typeof response !== 'object' || response === null) {
+    const userStatus = getUserStatusFields(response);
+    if (!userStatus) {
       return status;
     }
 
-    const data = response as Record<string, unknown>;
-
-    // The actual response is nested under 'userStatus'
-    const userStatus = (data.userStatus as Record<string, unknown>) || data;
-
     // Extract email from userStatus
     if ('email' in userStatus && typeof userStatus.email === 'string') {
       status.email = userStatus.email;
@@ -207,12 +249,40 @@ export class ConnectClient {
       status.isAuthenticated = Boolean(userStatus.isAuthenticated);
     }
 
-    // Extract quota from the nested structure
+    // Extract plan and quota from the nested structure
+    status.planType = this.extractPlanType(userStatus);
     status.quota = this.extractQuota(userStatus);
 
     return status;
   }
 
+  /**
+   * Extract the plan name from planStatus.planInfo
+   * Falls back to the tier enum, e.g. "TEAMS_TIER_PRO" → "Pro"
+   */
+  private extractPlanType(data: Record<string, unknown>): string | undefined {
+    const planStatus = data.planStatus as Record<string, unknown> | undefined;
+    const planInfo = planStatus?.planInfo as
+      | Record<string, unknown>
+      | undefined;
+    if (!planInfo) {
+      return undefined;
+    }
+
+    if (typeof planInfo.planName === 'string' && planInfo.planName) {
+      return planInfo.planName;
+    }
+    if (typeof planInfo.teamsTier === 'string' && planInfo.teamsTier) {
+      return planInfo.teamsTier
+        .replace(/^TEAMS_TIER_/, '')
+        .toLowerCase()
+        .split('_')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+    }
+    return undefined;
+  }
+
   /**
    * Extract quota information from response
    */
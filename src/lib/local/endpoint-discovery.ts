@@ -0,0 +1,145 @@
+/**
+ * Endpoint discovery - finds the Connect API endpoint for a process by
+ * trying cheap strategies before falling back to full port probing
+ *
+ * Strategies, in order:
+ * 1. known - ports that worked before (no port discovery needed)
+ * 2. hint  - the --extension_server_port from the command line
+ * 3. full  - discover every listening port and probe them all
+ *
+ * Every strategy accepts a port only after the GetUserStatus check in the
+ * prober, so a strategy whose ports all fail it falls through to the next.
+ */
+
+import { discoverPorts } from './port-detective';
+import {
+  probeForConnectAPIWithReport,
+  formatProbeRejections,
+  ProbeAttempt,
+  ProbeResult,
+} from './port-prober';
+import type { AntigravityProcessInfo } from './process-detector';
+import { debug } from '../../logger';
+import { NoListeningPortsError, EndpointNotFoundError } from './errors';
+
+export type DiscoveryStrategy = 'known' | 'hint' | 'full';
+
+export interface StrategyAttempt {
+  strategy: DiscoveryStrategy;
+  ports: number[];
+  durationMs: number;
+  success: boolean;
+  probes: ProbeAttempt[];
+}
+
+export interface DiscoveryResult {
+  endpoint: ProbeResult;
+  strategy: DiscoveryStrategy;
+  attempts: StrategyAttempt[];
+  totalMs: number;
+}
+
+/**
+ * Discover the Connect API endpoint for a process
+ * @param processInfo Detected language server process
+ * @param knownPorts Ports that previously answered, most recent first
+ * @throws NoListeningPortsError or EndpointNotFoundError
+ */
+export async function discoverEndpoint(
+  processInfo: AntigravityProcessInfo,
+  knownPorts: number[] = []
+): Promise<DiscoveryResult> {
+  const start = Date.now();
+  const attempts: StrategyAttempt[] = [];
+  const tried = new Set<number>();
+
+  const tryStrategy = async (
+    strategy: DiscoveryStrategy,
+    candidates: number[]
+  ): Promise<ProbeResult | null> => {
+    const ports = candidates.filter((p) => !tried.has(p));
+    if (ports.length === 0) return null;
+    ports.forEach((p) => tried.add(p));
+
+    const strategyStart = Date.now();
+    const report = await probeForConnectAPIWithReport(
+      ports,
+      processInfo.csrfToken
+    );
+    attempts.push({
+      strategy,
+      ports,
+      durationMs: Date.now() - strategyStart,
+      success: report.result !== null,
+      probes: report.attempts,
+    });
+
+    // Something other than the language server answered; try the next strategy
+    if (!report.result && report.attempts.some((a) => a.accepted)) {
+      debug(
+        'endpoint-discovery',
+        `PID ${processInfo.pid}: '${strategy}' port(s) ${ports.join(', ')} answered but failed GetUserStatus`
+      );
+    }
+    return report.result;
+  };
+
+  const finish = (
+    endpoint: ProbeResult,
+    strategy: DiscoveryStrategy
+  ): DiscoveryResult => {
+    const result = {
+      endpoint,
+      strategy,
+      attempts,
+      totalMs: Date.now() - start,
+    };
+    debug(
+      'endpoint-discovery',
+      `PID ${processInfo.pid}: found ${endpoint.baseUrl} via '${strategy}' in ${result.totalMs}ms (${formatAttempts(attempts)})`
+    );
+    return result;
+  };
+
+  // Strategy 1: previously successful ports
+  const known = await tryStrategy('known', knownPorts);
+  if (known) return finish(known, 'known');
+
+  // Strategy 2: hinted port from the command line
+  if (processInfo.extensionServerPort) {
+    const hinted = await tryStrategy('hint', [processInfo.extensionServerPort]);
+    if (hinted) return finish(hinted, 'hint');
+  }
+
+  // Strategy 3: full port discovery and probing
+  const discoverStart = Date.now();
+  const ports = await discoverPorts(processInfo.pid);
+  debug(
+    'endpoint-discovery',
+    `PID ${processInfo.pid}: port discovery took ${Date.now() - discoverStart}ms, found ${ports.length} ports`
+  );
+  if (ports.length === 0) {
+    throw new NoListeningPortsError(processInfo.pid);
+  }
+
+  const full = await tryStrategy('full', ports);
+  if (full) return finish(full, 'full');
+
+  debug(
+    'endpoint-discovery',
+    `PID ${processInfo.pid}: no endpoint after ${Date.now() - start}ms (${formatAttempts(attempts)})`
+  );
+  const rejections = formatProbeRejections(attempts.flatMap((a) => a.probes));
+  throw new EndpointNotFoundError(rejections || undefined);
+}
+
+/**
+ * Summarise attempts for the debug log, e.g. "known: miss 12ms, full: hit 430ms"
+ */
+function formatAttempts(attempts: StrategyAttempt[]): string {
+  return attempts
+    .map(
+      (a) => `${a.strategy}: ${a.success ? 'hit' : 'miss'} ${a.durationMs}ms`
+    )
+    .join(', ');
+}
@@ -0,0 +1,96 @@
+/**
+ * Connection errors - typed errors thrown by the local connection pipeline
+ * so callers can tell *why* quota couldn't be fetched
+ */
+
+export type ConnectionErrorCode =
+  | 'process-not-found'
+  | 'no-ports'
+  | 'endpoint-not-found'
+  | 'rpc-failed'
+  | 'not-authenticated'
+  | 'unknown';
+
+/**
+ * Base class for all connection errors
+ */
+export class QuotaCheckerError extends Error {
+  readonly code: ConnectionErrorCode;
+
+  constructor(message: string, code: ConnectionErrorCode = 'unknown') {
+    super(message);
+    this.name = 'QuotaCheckerError';
+    this.code = code;
+  }
+}
+
+/**
+ * No Antigravity language server process is running
+ */
+export class ProcessNotFoundError extends QuotaCheckerError {
+  constructor(message = 'Antigravity process not found') {
+    super(message, 'process-not-found');
+    this.name = 'ProcessNotFoundError';
+  }
+}
+
+/**
+ * The process was found but isn't listening on any TCP port
+ */
+export class NoListeningPortsError extends QuotaCheckerError {
+  readonly pid: number;
+
+  constructor(pid: number) {
+    super('No listening ports found for Antigravity', 'no-ports');
+    this.name = 'NoListeningPortsError';
+    this.pid = pid;
+  }
+}
+
+/**
+ * None of the process's ports answered like the Connect API
+ */
+export class EndpointNotFoundError extends QuotaCheckerError {
+  constructor(details?: string) {
+    super(
+      `Could not find Connect API endpoint${details ? ` (${details})` : ''}`,
+      'endpoint-not-found'
+    );
+    this.name = 'EndpointNotFoundError';
+  }
+}
+
+/**
+ * A Connect RPC call failed (network error, timeout or non-2xx status)
+ */
+export class RpcError extends QuotaCheckerError {
+  readonly statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message, 'rpc-failed');
+    this.name = 'RpcError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * The language server is running but no user is signed in
+ */
+export class NotAuthenticatedError extends QuotaCheckerError {
+  constructor(message = 'Not signed in to Antigravity') {
+    super(message, 'not-authenticated');
+    this.name = 'NotAuthenticatedError';
+  }
+}
+
+/**
+ * Wrap any thrown value as a QuotaCheckerError
+ */
+export function toQuotaCheckerError(err: unknown): QuotaCheckerError {
+  if (err instanceof QuotaCheckerError) {
+    return err;
+  }
+  return new QuotaCheckerError(
+    err instanceof Error ? err.message : String(err)
+  );
+}
@@ -22,6 +22,7 @@ export function parseLocalQuotaSnapshot(
     timestamp: new Date().toISOString(),
     method: 'local',
     email: userStatus.email,
+    planType: userStatus.planType,
     models: [],
   };
 
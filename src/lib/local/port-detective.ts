@@ -5,6 +5,7 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { debug } from '../../logger';
+import { isProcAvailable, findListeningPorts } from './proc-reader';
 
 const execAsync = promisify(exec);
 
@@ -64,9 +65,31 @@ async function discoverPortsOnMacOS(pid: number): Promise<number[]> {
 }
 
 /**
- * Discover listening ports on Linux using ss or netstat
+ * Discover listening ports on Linux
+ * Reads /proc directly when possible, falling back to ss or netstat
  */
 async function discoverPortsOnLinux(pid: number): Promise<number[]> {
+  if (await isProcAvailable()) {
+    try {
+      const ports = await findListeningPorts(pid);
+      debug(
+        'port-detective',
+        `Found ports on Linux (/proc): ${ports.join(', ')}`
+      );
+      return ports;
+    } catch (err) {
+      // Usually EACCES on /proc/<pid>/fd for another user's process
+      debug('port-detective', 'Could not read /proc, falling back to ss', err);
+    }
+  }
+
+  return discoverPortsOnLinuxSs(pid);
+}
+
+/**
+ * Linux port discovery using ss or netstat
+ */
+async function discoverPortsOnLinuxSs(pid: number): Promise<number[]> {
   try {
     // Try ss first (modern)
     const { stdout } = await execAsync(`ss -tlnp | grep "pid=${pid},"`);
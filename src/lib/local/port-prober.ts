@@ -5,6 +5,7 @@
 import https from 'https';
 import http from 'http';
 import { debug } from '../../logger';
+import { getUserStatusFields } from './connect-client';
 
 export interface ProbeResult {
   baseUrl: string;
@@ -12,6 +13,37 @@ export interface ProbeResult {
   port: number;
 }
 
+/**
+ * One request made while probing, and why it was accepted or rejected
+ */
+export interface ProbeAttempt {
+  port: number;
+  protocol: 'https' | 'http';
+  rpc: 'GetUnleashData' | 'GetUserStatus';
+  accepted: boolean;
+  reason: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of probing a set of ports
+ */
+export interface ProbeReport {
+  result: ProbeResult | null;
+  candidates: ProbeResult[]; // Every verified endpoint, best first
+  attempts: ProbeAttempt[]; // Includes ports rejected by GetUserStatus
+}
+
+interface RankedCandidate {
+  endpoint: ProbeResult;
+  latencyMs: number;
+}
+
+const SERVICE_PATH = '/exa.language_server_pb.LanguageServerService';
+
+// GetUserStatus does more work than GetUnleashData, so allow it longer
+const USER_STATUS_TIMEOUT_MS = 3000;
+
 /**
  * Probes ports to find a working Connect API endpoint
  * Tries HTTPS first (with self-signed cert handling), then HTTP
@@ -25,65 +57,173 @@ export async function probeForConnectAPI(
   csrfToken?: string,
   timeout = 500
 ): Promise<ProbeResult | null> {
+  const report = await probeForConnectAPIWithReport(ports, csrfToken, timeout);
+  return report.result;
+}
+
+/**
+ * Probes ports like probeForConnectAPI, returning every attempt made
+ *
+ * A port only counts as the Connect API if GetUnleashData answers 200 with
+ * a JSON object and a GetUserStatus round-trip returns a user status.
+ * Ports failing either check are only reported in `attempts`. Candidates
+ * are ranked HTTPS over HTTP, then by lowest latency.
+ */
+export async function probeForConnectAPIWithReport(
+  ports: number[],
+  csrfToken?: string,
+  timeout = 500
+): Promise<ProbeReport> {
   debug('port-prober', `Probing ${ports.length} ports: ${ports.join(', ')}`);
 
+  const attempts: ProbeAttempt[] = [];
+
   // Probe all ports concurrently
-  const probePromises = ports.map((port) =>
-    probePort(port, csrfToken, timeout)
+  const results = await Promise.all(
+    ports.map((port) => probePort(port, csrfToken, timeout, attempts))
   );
-  const results = await Promise.allSettled(probePromises);
-
-  // Find first successful probe
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    if (result.status === 'fulfilled' && result.value) {
-      debug('port-prober', `Found working endpoint: ${result.value.baseUrl}`);
-      return result.value;
+
+  const ranked = results
+    .filter((c): c is RankedCandidate => c !== null)
+    .sort(
+      (a, b) =>
+        Number(b.endpoint.protocol === 'https') -
+          Number(a.endpoint.protocol === 'https') || a.latencyMs - b.latencyMs
+    );
+
+  for (const attempt of attempts) {
+    if (!attempt.accepted) {
+      debug(
+        'port-prober',
+        `Rejected ${attempt.protocol}://127.0.0.1:${attempt.port} (${attempt.rpc}): ${attempt.reason}`
+      );
     }
   }
 
-  debug('port-prober', 'No working Connect API endpoint found');
-  return null;
+  const result = ranked[0]?.endpoint ?? null;
+  if (result) {
+    debug(
+      'port-prober',
+      `Found working endpoint: ${result.baseUrl} (${ranked.length} candidate(s))`
+    );
+  } else {
+    debug('port-prober', 'No working Connect API endpoint found');
+  }
+
+  return {
+    result,
+    candidates: ranked.map((c) => c.endpoint),
+    attempts,
+  };
+}
+
+/**
+ * Summarise rejected attempts, e.g. "42100/https: HTTP 404; 42100/http: not JSON"
+ */
+export function formatProbeRejections(attempts: ProbeAttempt[]): string {
+  return attempts
+    .filter((a) => !a.accepted)
+    .map((a) => `${a.port}/${a.protocol}: ${a.reason}`)
+    .join('; ');
 }
 
 /**
  * Probe a single port for Connect API
- * Tries HTTPS first, then HTTP
+ * Tries HTTPS first, then HTTP; null unless GetUserStatus is verified
  */
 async function probePort(
   port: number,
-  csrfToken?: string,
-  timeout = 500
-): Promise<ProbeResult | null> {
-  // Try HTTPS first (language server typically uses self-signed certs)
-  const httpsResult = await probeHttps(port, timeout, csrfToken);
-  if (httpsResult) {
-    return httpsResult;
-  }
+  csrfToken: string | undefined,
+  timeout: number,
+  attempts: ProbeAttempt[]
+): Promise<RankedCandidate | null> {
+  for (const protocol of ['https', 'http'] as const) {
+    const unleash = await callRpc(
+      protocol,
+      port,
+      'GetUnleashData',
+      { wrapper_data: {} },
+      csrfToken,
+      timeout
+    );
+    const unleashReason = unleash.error ?? checkJsonObject(unleash);
+    attempts.push({
+      port,
+      protocol,
+      rpc: 'GetUnleashData',
+      accepted: !unleashReason,
+      reason: unleashReason ?? 'valid Connect RPC response',
+      durationMs: unleash.durationMs,
+    });
+    if (unleashReason) continue;
+
+    // Confirm it's really the language server
+    const userStatus = await callRpc(
+      protocol,
+      port,
+      'GetUserStatus',
+      {
+        metadata: {
+          ideName: 'antigravity',
+          extensionName: 'antigravity',
+          locale: 'en',
+        },
+      },
+      csrfToken,
+      USER_STATUS_TIMEOUT_MS
+    );
+    const userStatusReason =
+      userStatus.error ?? checkUserStatusSchema(userStatus);
+    attempts.push({
+      port,
+      protocol,
+      rpc: 'GetUserStatus',
+      accepted: !userStatusReason,
+      reason: userStatusReason ?? 'valid user status',
+      durationMs: userStatus.durationMs,
+    });
+    // Some other Connect service, not the language server
+    if (userStatusReason) continue;
 
-  // Fallback to HTTP
-  const httpResult = await probeHttp(port, timeout);
-  if (httpResult) {
-    return httpResult;
+    return {
+      endpoint: {
+        baseUrl: `${protocol}://127.0.0.1:${port}`,
+        protocol,
+        port,
+      },
+      latencyMs: unleash.durationMs,
+    };
   }
 
   return null;
 }
 
+interface RpcResponse {
+  status?: number;
+  body?: unknown; // Parsed JSON, if the response was JSON
+  error?: string; // Network-level failure
+  durationMs: number;
+}
+
 /**
- * Probe a port with HTTPS (allowing self-signed certificates)
- * Uses Connect RPC GetUnleashData endpoint to verify it's the correct port
+ * POST a Connect RPC request and collect the response
+ * Never rejects; failures are reported in the result
  */
-function probeHttps(
+function callRpc(
+  protocol: 'https' | 'http',
   port: number,
-  timeout: number,
-  csrfToken?: string
-): Promise<ProbeResult | null> {
+  rpc: string,
+  body: unknown,
+  csrfToken: string | undefined,
+  timeout: number
+): Promise<RpcResponse> {
+  const start = Date.now();
+
   return new Promise((resolve) => {
     const options: https.RequestOptions = {
       hostname: '127.0.0.1',
       port,
-      path: '/exa.language_server_pb.LanguageServerService/GetUnleashData',
+      path: `${SERVICE_PATH}/${rpc}`,
       method: 'POST',
       timeout,
       rejectUnauthorized: false, // Allow self-signed certificates
@@ -94,90 +234,89 @@ function probeHttps(
       },
     };
 
-    const req = https.request(options, (res) => {
-      // Check for successful response
-      if (res.statusCode === 200) {
-        debug(
-          'port-prober',
-          `HTTPS Connect RPC probe on port ${port}: status ${res.statusCode} - valid connect port`
-        );
+    const transport = protocol === 'https' ? https : http;
+    const req = transport.request(options, (res) => {
+      let data = '';
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+      res.on('end', () => {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          parsed = undefined;
+        }
         resolve({
-          baseUrl: `https://127.0.0.1:${port}`,
-          protocol: 'https',
-          port,
+          status: res.statusCode,
+          body: parsed,
+          durationMs: Date.now() - start,
         });
-      } else {
-        debug(
-          'port-prober',
-          `HTTPS probe on port ${port}: status ${res.statusCode} - not connect port`
-        );
-        resolve(null);
-      }
-
-      // Consume response data to free up memory
-      res.resume();
+      });
     });
 
     req.on('error', (err) => {
-      debug(
-        'port-prober',
-        `HTTPS probe on port ${port} failed: ${err.message}`
-      );
-      resolve(null);
+      resolve({
+        error: describeNetworkError(err),
+        durationMs: Date.now() - start,
+      });
     });
 
     req.on('timeout', () => {
-      debug('port-prober', `HTTPS probe on port ${port} timed out`);
       req.destroy();
-      resolve(null);
+      resolve({ error: 'timed out', durationMs: Date.now() - start });
     });
 
-    // Send the Connect RPC request body
-    req.write(JSON.stringify({ wrapper_data: {} }));
+    req.write(JSON.stringify(body));
     req.end();
   });
 }
 
 /**
- * Probe a port with HTTP
+ * Turn a socket error into a short rejection reason
  */
-function probeHttp(port: number, timeout: number): Promise<ProbeResult | null> {
-  return new Promise((resolve) => {
-    const options: http.RequestOptions = {
-      hostname: 'localhost',
-      port,
-      path: '/',
-      method: 'GET',
-      timeout,
-    };
-
-    const req = http.request(options, (res) => {
-      // Any response (even 404) means server is there
-      debug(
-        'port-prober',
-        `HTTP probe on port ${port}: status ${res.statusCode}`
-      );
-      resolve({
-        baseUrl: `http://localhost:${port}`,
-        protocol: 'http',
-        port,
-      });
-
-      // Consume response data to free up memory
-      res.resume();
-    });
+function describeNetworkError(err: NodeJS.ErrnoException): string {
+  switch (err.code) {
+    case 'ECONNREFUSED':
+      return 'connection refused';
+    case 'ECONNRESET':
+      return 'connection reset';
+    case 'EPROTO':
+      return 'TLS handshake failed (not an HTTPS server)';
+    default:
+      return err.message.split('\n')[0];
+  }
+}
 
-    req.on('error', (err) => {
-      debug('port-prober', `HTTP probe on port ${port} failed: ${err.message}`);
-      resolve(null);
-    });
+/**
+ * Require a 200 response with a JSON object body
+ * Returns the rejection reason, or undefined if valid
+ */
+function checkJsonObject(response: RpcResponse): string | undefined {
+  if (response.status !== 200) {
+    return `HTTP ${response.status}`;
+  }
+  if (
+    typeof response.body !== 'object' ||
+    response.body === null ||
+    Array.isArray(response.body)
+  ) {
+    return 'response is not a JSON object';
+  }
+  return undefined;
+}
 
-    req.on('timeout', () => {
-      debug('port-prober', `HTTP probe on port ${port} timed out`);
-      req.destroy();
-      resolve(null);
-    });
+/**
+ * Require a GetUserStatus response the client can read, nested or flat
+ * (see getUserStatusFields). A signed-out status is still the language server.
+ * Returns the rejection reason, or undefined if valid
+ */
+function checkUserStatusSchema(response: RpcResponse): string | undefined {
+  const reason = checkJsonObject(response);
+  if (reason) return reason;
 
-    req.end();
-  });
+  if (!getUserStatusFields(response.body)) {
+    return 'response has no user status';
+  }
+  return undefined;
 }
@@ -0,0 +1,166 @@
+/**
+ * Proc reader - Linux process and port discovery straight from /proc,
+ * without running any shell commands
+ *
+ * Every function takes the proc root as a parameter so it can be pointed
+ * at a fake /proc tree.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { debug } from '../../logger';
+
+export const DEFAULT_PROC_ROOT = '/proc';
+
+// TCP state code for LISTEN in /proc/net/tcp{,6}
+const TCP_LISTEN = '0A';
+
+export interface ProcProcess {
+  pid: number;
+  args: string[]; // argv, as NUL-separated in /proc/<pid>/cmdline
+}
+
+/**
+ * Check whether a usable /proc filesystem is mounted at the given root
+ */
+export async function isProcAvailable(
+  procRoot = DEFAULT_PROC_ROOT
+): Promise<boolean> {
+  try {
+    await fs.promises.access(path.join(procRoot, 'net', 'tcp'));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List every process with a readable command line
+ * Kernel threads (empty cmdline) and processes that exit mid-scan are skipped
+ */
+export async function listProcesses(
+  procRoot = DEFAULT_PROC_ROOT
+): Promise<ProcProcess[]> {
+  const entries = await fs.promises.readdir(procRoot);
+  const processes: ProcProcess[] = [];
+
+  await Promise.all(
+    entries
+      .filter((name) => /^\d+$/.test(name))
+      .map(async (name) => {
+        try {
+          const raw = await fs.promises.readFile(
+            path.join(procRoot, name, 'cmdline'),
+            'utf-8'
+          );
+          const args = raw.split('\0');
+          // cmdline is NUL-terminated, so the last element is empty
+          if (args.length > 0 && args[args.length - 1] === '') {
+            args.pop();
+          }
+          if (args.length > 0) {
+            processes.push({ pid: parseInt(name, 10), args });
+          }
+        } catch {
+          // Process exited or is not readable
+        }
+      })
+  );
+
+  return processes.sort((a, b) => a.pid - b.pid);
+}
+
+/**
+ * Find the TCP ports a process is listening on by matching the socket
+ * inodes in /proc/<pid>/fd against LISTEN entries in /proc/net/tcp{,6}
+ *
+ * Throws if the process's fd directory can't be read (e.g. it belongs to
+ * another user), so callers can fall back to another strategy.
+ */
+export async function findListeningPorts(
+  pid: number,
+  procRoot = DEFAULT_PROC_ROOT
+): Promise<number[]> {
+  const listening = new Map<string, number>();
+  for (const file of ['tcp', 'tcp6']) {
+    try {
+      const table = await fs.promises.readFile(
+        path.join(procRoot, 'net', file),
+        'utf-8'
+      );
+      for (const [inode, port] of parseListeningSockets(table)) {
+        listening.set(inode, port);
+      }
+    } catch {
+      // tcp6 is missing when IPv6 is disabled
+    }
+  }
+
+  const fdDir = path.join(procRoot, String(pid), 'fd');
+  const fds = await fs.promises.readdir(fdDir);
+  const ports: number[] = [];
+
+  await Promise.all(
+    fds.map(async (fd) => {
+      try {
+        const target = await fs.promises.readlink(path.join(fdDir, fd));
+        const match = target.match(/^socket:\[(\d+)\]$/);
+        const port = match ? listening.get(match[1]) : undefined;
+        if (port !== undefined && !ports.includes(port)) {
+          ports.push(port);
+        }
+      } catch {
+        // fd closed mid-scan
+      }
+    })
+  );
+
+  debug(
+    'proc-reader',
+    `PID ${pid}: ${fds.length} fds, ${listening.size} listening sockets, ports ${ports.join(', ')}`
+  );
+  return ports.sort((a, b) => a - b);
+}
+
+/**
+ * Parse a /proc/net/tcp{,6} table into inode → port for LISTEN sockets
+ */
+export function parseListeningSockets(table: string): Map<string, number> {
+  const result = new Map<string, number>();
+  const lines = table.split('\n').slice(1); // Skip header
+
+  for (const line of lines) {
+    // Format: sl local_address rem_address st tx_queue:rx_queue tr:tm->when retrnsmt uid timeout inode ...
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 10 || parts[3] !== TCP_LISTEN) continue;
+
+    const portHex = parts[1].split(':').pop();
+    const port = portHex ? parseInt(portHex, 16) : NaN;
+    const inode = parts[9];
+    if (!isNaN(port) && inode !== '0') {
+      result.set(inode, port);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Extract an argument value from an argv array
+ * Supports formats: --arg=value and --arg value
+ */
+export function getArgValue(
+  args: string[],
+  argName: string
+): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith(`${argName}=`)) {
+      return arg.slice(argName.length + 1);
+    }
+    if (arg === argName && i + 1 < args.length) {
+      return args[i + 1];
+    }
+  }
+  return undefined;
+}
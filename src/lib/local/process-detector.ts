@@ -5,6 +5,12 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { debug } from '../../logger';
+import {
+  DEFAULT_PROC_ROOT,
+  isProcAvailable,
+  listProcesses,
+  getArgValue,
+} from './proc-reader';
 
 const execAsync = promisify(exec);
 
@@ -17,9 +23,12 @@ export interface AntigravityProcessInfo {
 
 /**
  * Detects running Antigravity language server processes
- * Returns process info including PID and extracted command-line arguments
+ * Returns process info (PID and extracted command-line arguments) for every
+ * candidate, e.g. one per open Antigravity window or signed-in account
  */
-export async function detectAntigravityProcess(): Promise<AntigravityProcessInfo | null> {
+export async function detectAntigravityProcesses(): Promise<
+  AntigravityProcessInfo[]
+> {
   const platform = process.platform;
 
   debug(
@@ -27,34 +36,42 @@ export async function detectAntigravityProcess(): Promise<AntigravityProcessInfo
     `Detecting Antigravity process on platform: ${platform}`
   );
 
+  let found: AntigravityProcessInfo[];
   if (platform === 'win32') {
-    return detectOnWindows();
+    found = await detectOnWindows();
+  } else if (platform === 'linux' && (await isProcAvailable())) {
+    found = await detectOnLinuxProc();
   } else {
-    // macOS and Linux use similar commands
-    return detectOnUnix();
+    // macOS (and Linux without /proc) use ps
+    found = await detectOnUnix();
   }
+
+  // Language servers carry a CSRF token; when some candidates have one,
+  // drop the others (e.g. the Antigravity UI processes themselves)
+  const withToken = found.filter((p) => p.csrfToken);
+  const candidates = withToken.length > 0 ? withToken : found;
+
+  debug(
+    'process-detector',
+    `Found ${candidates.length} candidate process(es): ${candidates.map((p) => p.pid).join(', ')}`
+  );
+  return candidates;
 }
 
 /**
  * Detect Antigravity process on Unix-like systems (macOS, Linux)
  */
-async function detectOnUnix(): Promise<AntigravityProcessInfo | null> {
+async function detectOnUnix(): Promise<AntigravityProcessInfo[]> {
   try {
     // Use ps to list all processes with full command line
     // Look for processes containing 'antigravity' in their command
     const { stdout } = await execAsync('ps aux');
 
     const lines = stdout.split('\n');
+    const found: AntigravityProcessInfo[] = [];
 
     for (const line of lines) {
-      // Look for language server process indicators
-      // Common patterns: antigravity, language-server, lsp
-      if (
-        line.toLowerCase().includes('antigravity') &&
-        (line.includes('language-server') ||
-          line.includes('lsp') ||
-          line.includes('server'))
-      ) {
+      if (isLanguageServerCommand(line)) {
         debug(
           'process-detector',
           `Found potential Antigravity process: ${line}`
@@ -62,19 +79,77 @@ async function detectOnUnix(): Promise<AntigravityProcessInfo | null> {
 
         const processInfo = parseUnixProcessLine(line);
         if (processInfo) {
-          return processInfo;
+          found.push(processInfo);
         }
       }
     }
 
-    debug('process-detector', 'No Antigravity process found');
-    return null;
+    if (found.length === 0) {
+      debug('process-detector', 'No Antigravity process found');
+    }
+    return found;
   } catch (err) {
     debug('process-detector', 'Error detecting process on Unix', err);
-    return null;
+    return [];
   }
 }
 
+/**
+ * Detect Antigravity processes on Linux by reading /proc/<pid>/cmdline
+ * Arguments come NUL-separated, so no whitespace re-splitting is needed
+ */
+export async function detectOnLinuxProc(
+  procRoot = DEFAULT_PROC_ROOT
+): Promise<AntigravityProcessInfo[]> {
+  try {
+    const processes = await listProcesses(procRoot);
+    const found: AntigravityProcessInfo[] = [];
+
+    for (const { pid, args } of processes) {
+      if (pid === process.pid) continue;
+
+      const commandLine = args.join(' ');
+      if (!isLanguageServerCommand(commandLine)) continue;
+
+      debug(
+        'process-detector',
+        `Found potential Antigravity process in /proc: PID ${pid}`
+      );
+
+      const extensionServerPort = getArgValue(args, '--extension_server_port');
+      found.push({
+        pid,
+        csrfToken: getArgValue(args, '--csrf_token') || undefined,
+        extensionServerPort: extensionServerPort
+          ? parseInt(extensionServerPort, 10)
+          : undefined,
+        commandLine,
+      });
+    }
+
+    if (found.length === 0) {
+      debug('process-detector', 'No Antigravity process found in /proc');
+    }
+    return found;
+  } catch (err) {
+    debug('process-detector', 'Error reading /proc', err);
+    return [];
+  }
+}
+
+/**
+ * Check whether a command line looks like an Antigravity language server
+ * Common patterns: antigravity, language-server, lsp
+ */
+function isLanguageServerCommand(commandLine: string): boolean {
+  return (
+    commandLine.toLowerCase().includes('antigravity') &&
+    (commandLine.includes('language-server') ||
+      commandLine.includes('lsp') ||
+      commandLine.includes('server'))
+  );
+}
+
 /**
  * Parse a Unix ps output line to extract process info
  */
@@ -114,7 +189,7 @@ function parseUnixProcessLine(line: string): AntigravityProcessInfo | null {
 /**
  * Detect Antigravity process on Windows
  */
-async function detectOnWindows(): Promise<AntigravityProcessInfo | null> {
+async function detectOnWindows(): Promise<AntigravityProcessInfo[]> {
   try {
     // Use WMIC to get process details with command line
     const { stdout } = await execAsync(
@@ -127,6 +202,7 @@ async function detectOnWindows(): Promise<AntigravityProcessInfo | null> {
       .filter(
         (line) => line.trim() && !line.includes('Node,CommandLine,ProcessId')
       );
+    const found: AntigravityProcessInfo[] = [];
 
     for (const line of lines) {
       // CSV format: Node,CommandLine,ProcessId
@@ -147,18 +223,22 @@ async function detectOnWindows(): Promise<AntigravityProcessInfo | null> {
             '--extension_server_port'
           );
 
-          return {
+          found.push({
             pid,
             csrfToken: csrfToken || undefined,
             extensionServerPort: extensionServerPort
               ? parseInt(extensionServerPort, 10)
               : undefined,
             commandLine,
-          };
+          });
         }
       }
     }
 
+    if (found.length > 0) {
+      return found;
+    }
+
     // Fallback: try PowerShell if WMIC doesn't work
     return await detectOnWindowsPowerShell();
   } catch (err) {
@@ -174,18 +254,19 @@ async function detectOnWindows(): Promise<AntigravityProcessInfo | null> {
 /**
  * Fallback Windows detection using PowerShell
  */
-async function detectOnWindowsPowerShell(): Promise<AntigravityProcessInfo | null> {
+async function detectOnWindowsPowerShell(): Promise<AntigravityProcessInfo[]> {
   try {
     const { stdout } = await execAsync(
       'powershell -Command "Get-Process | Where-Object { $_.ProcessName -like \'*antigravity*\' } | Select-Object Id, ProcessName | ConvertTo-Json"'
     );
 
     if (!stdout.trim()) {
-      return null;
+      return [];
     }
 
     const processes = JSON.parse(stdout);
     const processList = Array.isArray(processes) ? processes : [processes];
+    const found: AntigravityProcessInfo[] = [];
 
     for (const proc of processList) {
       if (proc.Id) {
@@ -201,25 +282,39 @@ async function detectOnWindowsPowerShell(): Promise<AntigravityProcessInfo | nul
           '--extension_server_port'
         );
 
-        return {
+        found.push({
           pid: proc.Id,
           csrfToken: csrfToken || undefined,
           extensionServerPort: extensionServerPort
             ? parseInt(extensionServerPort, 10)
             : undefined,
           commandLine,
-        };
+        });
       }
     }
 
-    return null;
+    return found;
   } catch (err) {
     debug(
       'process-detector',
       'Error detecting process on Windows with PowerShell',
       err
     );
-    return null;
+    return [];
+  }
+}
+
+/**
+ * Check whether a process is still running, without shelling out
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 performs the existence/permission check only
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
   }
 }
 
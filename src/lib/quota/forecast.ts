@@ -0,0 +1,142 @@
+/**
+ * Quota forecast - estimates consumption rate and time to exhaustion
+ * from successive quota readings
+ */
+
+import type { QuotaSnapshot, ModelQuotaInfo } from './types';
+import { formatDuration } from './format';
+
+export interface ModelForecast {
+  consumptionPerHour: number; // Fraction of quota consumed per hour (0.1 = 10%/h)
+  timeToExhaustionMs?: number; // Undefined when quota isn't being consumed
+  exhaustsBeforeReset: boolean;
+}
+
+interface Reading {
+  timestamp: number;
+  remainingPercentage: number;
+}
+
+interface ModelSeries {
+  resetTime?: string;
+  readings: Reading[];
+}
+
+// Only readings from the last hour are used to compute the rate
+const LOOKBACK_MS = 60 * 60 * 1000;
+
+// Need at least this much time between readings for a meaningful rate
+const MIN_SPAN_MS = 60 * 1000;
+
+// Cap per-model history kept in memory
+const MAX_READINGS = 120;
+
+/**
+ * Tracks readings per model and projects when each model will hit 0%.
+ * A model's series restarts whenever its reset time changes or its
+ * remaining percentage goes up (quota was refilled).
+ */
+export class QuotaForecaster {
+  private series = new Map<string, ModelSeries>();
+
+  /**
+   * Record a snapshot's readings
+   */
+  record(snapshot: QuotaSnapshot): void {
+    const timestamp = Date.parse(snapshot.timestamp) || Date.now();
+
+    for (const model of snapshot.models) {
+      if (model.remainingPercentage === undefined) continue;
+
+      let series = this.series.get(model.modelId);
+      const last = series?.readings[series.readings.length - 1];
+
+      if (
+        !series ||
+        series.resetTime !== model.resetTime ||
+        (last && model.remainingPercentage > last.remainingPercentage)
+      ) {
+        series = { resetTime: model.resetTime, readings: [] };
+        this.series.set(model.modelId, series);
+      }
+
+      series.readings.push({
+        timestamp,
+        remainingPercentage: model.remainingPercentage,
+      });
+      if (series.readings.length > MAX_READINGS) {
+        series.readings.shift();
+      }
+    }
+  }
+
+  /**
+   * Forecast a single model, or undefined if there isn't enough data yet
+   */
+  forecast(model: ModelQuotaInfo): ModelForecast | undefined {
+    const series = this.series.get(model.modelId);
+    if (!series || series.readings.length < 2) {
+      return undefined;
+    }
+
+    const latest = series.readings[series.readings.length - 1];
+    const window = series.readings.filter(
+      (r) => latest.timestamp - r.timestamp <= LOOKBACK_MS
+    );
+    const oldest = window[0];
+    const spanMs = latest.timestamp - oldest.timestamp;
+    if (spanMs < MIN_SPAN_MS) {
+      return undefined;
+    }
+
+    const consumed = oldest.remainingPercentage - latest.remainingPercentage;
+    const consumptionPerHour = Math.max(0, consumed / (spanMs / 3600000));
+
+    if (consumptionPerHour === 0) {
+      return { consumptionPerHour, exhaustsBeforeReset: false };
+    }
+
+    const timeToExhaustionMs =
+      (latest.remainingPercentage / consumptionPerHour) * 3600000;
+    const exhaustsBeforeReset =
+      model.timeUntilResetMs === undefined ||
+      timeToExhaustionMs < model.timeUntilResetMs;
+
+    return { consumptionPerHour, timeToExhaustionMs, exhaustsBeforeReset };
+  }
+
+  /**
+   * Attach forecasts to every model in the snapshot
+   */
+  annotate(snapshot: QuotaSnapshot): void {
+    for (const model of snapshot.models) {
+      model.forecast = this.forecast(model);
+    }
+  }
+}
+
+/**
+ * Describe a forecast for display, e.g.
+ * "At current pace: exhausted in ~1h40m (resets in 3h)"
+ * Returns undefined when the model isn't being consumed.
+ */
+export function describeForecast(model: ModelQuotaInfo): string | undefined {
+  const forecast = model.forecast;
+  if (
+    !forecast ||
+    forecast.timeToExhaustionMs === undefined ||
+    model.isExhausted
+  ) {
+    return undefined;
+  }
+
+  const resets =
+    model.timeUntilResetMs !== undefined
+      ? ` (resets in ${formatDuration(model.timeUntilResetMs)})`
+      : '';
+
+  if (!forecast.exhaustsBeforeReset) {
+    return `At current pace: lasts until reset${resets}`;
+  }
+  return `At current pace: exhausted in ~${formatDuration(forecast.timeToExhaustionMs)}${resets}`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Shared formatting helpers for quota display
+ */
+
+import type { PromptCreditsInfo } from './types';
+
+/**
+ * Format a duration compactly, e.g. "45m", "1h40m", "3h", "2d 4h"
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / (1000 * 60)));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Format prompt credits, e.g. "450 / 500 (90% left)"
+ */
+export function formatCredits(credits: PromptCreditsInfo): string {
+  const left = Math.round(credits.remainingPercentage * 100);
+  return (
+    `${credits.available.toLocaleString()} / ` +
+    `${credits.monthly.toLocaleString()} (${left}% left)`
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Model catalog - classifies models by provider, family and tier
+ * One table drives grouping, ordering and short labels in the status bar
+ * and the dashboard. Entries from the `modelCatalog` setting are checked
+ * before the built-in ones, so new models need no code change.
+ */
+
+/**
+ * One catalog rule; the first entry whose pattern matches wins
+ */
+export interface ModelCatalogEntry {
+  match: string; // Case-insensitive regex, tested against modelId and label
+  provider: string; // Dashboard group, e.g. "Claude"
+  family?: string; // e.g. "Sonnet"
+  tier?: string; // e.g. "Thinking", "Low"
+  shortLabel?: string; // Defaults to the family, or the label's first word
+  weight?: number; // Order within the provider, lightweight first
+}
+
+export interface ModelClassification {
+  provider: string;
+  family?: string;
+  tier?: string;
+  shortLabel: string;
+  weight: number;
+}
+
+interface ModelRef {
+  modelId: string;
+  label: string;
+}
+
+interface CompiledEntry {
+  pattern: RegExp;
+  entry: ModelCatalogEntry;
+}
+
+const OTHER_PROVIDER = 'Other';
+
+// Models without a weight sort after the known ones
+const DEFAULT_WEIGHT = 100;
+
+// Provider of models no entry matches, in display order
+const PROVIDERS: { name: string; match: string }[] = [
+  { name: 'Claude', match: 'claude|sonnet|opus|haiku' },
+  { name: 'Gemini', match: 'gemini' },
+  { name: 'GPT', match: 'gpt|openai|\\bo1\\b|\\b4o\\b' },
+];
+
+export const BUILTIN_CATALOG: ModelCatalogEntry[] = [
+  {
+    match: 'sonnet.*thinking',
+    provider: 'Claude',
+    family: 'Sonnet',
+    tier: 'Thinking',
+    shortLabel: 'Sonnet-T',
+    weight: 20,
+  },
+  { match: 'sonnet', provider: 'Claude', family: 'Sonnet', weight: 10 },
+  { match: 'opus', provider: 'Claude', family: 'Opus', weight: 30 },
+  { match: 'gemini.*flash', provider: 'Gemini', family: 'Flash', weight: 10 },
+  {
+    match: 'gemini.*pro.*low',
+    provider: 'Gemini',
+    family: 'Pro',
+    tier: 'Low',
+    shortLabel: 'Pro-L',
+    weight: 20,
+  },
+  {
+    match: 'gemini.*pro.*thinking',
+    provider: 'Gemini',
+    family: 'Pro',
+    tier: 'Thinking',
+    shortLabel: 'Pro-T',
+    weight: 25,
+  },
+  {
+    match: 'gemini.*pro.*high',
+    provider: 'Gemini',
+    family: 'Pro',
+    tier: 'High',
+    weight: 30,
+  },
+  { match: 'gemini.*pro', provider: 'Gemini', family: 'Pro', weight: 30 },
+  { match: '\\b4o\\b', provider: 'GPT', family: '4o', weight: 10 },
+  { match: '\\bo1\\b', provider: 'GPT', family: 'o1', weight: 20 },
+];
+
+export class ModelCatalog {
+  private entries: CompiledEntry[];
+  private providerOrder: string[];
+
+  /**
+   * @param custom Entries checked before the built-in ones. Entries with an
+   *   invalid pattern are ignored.
+   */
+  constructor(custom: ModelCatalogEntry[] = []) {
+    this.entries = [...custom, ...BUILTIN_CATALOG]
+      .map((entry) => ({ pattern: compile(entry.match), entry }))
+      .filter((e): e is CompiledEntry => e.pattern !== undefined);
+
+    // Built-in providers first, then new ones from config, "Other" last
+    const names = PROVIDERS.map((p) => p.name);
+    for (const { provider } of custom) {
+      if (!names.includes(provider) && provider !== OTHER_PROVIDER) {
+        names.push(provider);
+      }
+    }
+    this.providerOrder = [...names, OTHER_PROVIDER];
+  }
+
+  classify(model: ModelRef): ModelClassification {
+    const match = this.entries.find(({ pattern }) => matches(pattern, model));
+    if (match) {
+      const { provider, family, tier, shortLabel, weight } = match.entry;
+      return {
+        provider,
+        family,
+        tier,
+        shortLabel:
+          shortLabel || family || getFallbackLabel(model.label, provider),
+        weight: weight ?? DEFAULT_WEIGHT,
+      };
+    }
+
+    const provider =
+      PROVIDERS.find((p) => matches(new RegExp(p.match, 'i'), model))?.name ??
+      OTHER_PROVIDER;
+    return {
+      provider,
+      shortLabel: getFallbackLabel(model.label, provider),
+      weight: DEFAULT_WEIGHT,
+    };
+  }
+
+  /**
+   * Sort order: provider, then weight, then label
+   */
+  compare(a: ModelRef, b: ModelRef): number {
+    const ca = this.classify(a);
+    const cb = this.classify(b);
+    return (
+      this.getProviderIndex(ca.provider) - this.getProviderIndex(cb.provider) ||
+      ca.weight - cb.weight ||
+      a.label.localeCompare(b.label)
+    );
+  }
+
+  sort<T extends ModelRef>(models: T[]): T[] {
+    return [...models].sort((a, b) => this.compare(a, b));
+  }
+
+  /**
+   * Models grouped by provider, groups and their models in catalog order
+   */
+  group<T extends ModelRef>(models: T[]): { name: string; models: T[] }[] {
+    const groups = new Map<string, T[]>();
+    for (const model of this.sort(models)) {
+      const { provider } = this.classify(model);
+      groups.set(provider, [...(groups.get(provider) ?? []), model]);
+    }
+    return [...groups].map(([name, grouped]) => ({ name, models: grouped }));
+  }
+
+  private getProviderIndex(provider: string): number {
+    const index = this.providerOrder.indexOf(provider);
+    return index === -1 ? this.providerOrder.length : index;
+  }
+}
+
+function compile(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return undefined;
+  }
+}
+
+function matches(pattern: RegExp, model: ModelRef): boolean {
+  return pattern.test(model.modelId) || pattern.test(model.label);
+}
+
+// First word of the label after the provider name, e.g. "Claude Haiku 5" → "Haiku"
+function getFallbackLabel(label: string, provider: string): string {
+  const words = label.split(' ').filter(Boolean);
+  if (words.length > 1 && words[0].toLowerCase() === provider.toLowerCase()) {
+    return words[1];
+  }
+  return words[0] ?? label;
+}
@@ -2,6 +2,8 @@
  * Quota data types
  */
 
+import type { ModelForecast } from './forecast'
+
 export interface QuotaSnapshot {
   timestamp: string
   method: 'google' | 'local'
@@ -18,6 +20,7 @@ export interface ModelQuotaInfo {
   isExhausted: boolean
   resetTime?: string
   timeUntilResetMs?: number
+  forecast?: ModelForecast // Filled in by QuotaService from successive readings
 }
 
 export interface PromptCreditsInfo {
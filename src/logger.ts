@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
+import { AsyncLocalStorage } from 'async_hooks';
 
 let outputChannel: vscode.OutputChannel | undefined;
+const captured = new AsyncLocalStorage<string[]>();
 
 export function getOutputChannel(): vscode.OutputChannel {
   if (!outputChannel) {
@@ -9,26 +11,41 @@ export function getOutputChannel(): vscode.OutputChannel {
   return outputChannel;
 }
 
+/**
+ * Run fn and collect the lines it logs into `lines`, including lines from
+ * the async calls it makes. Lines logged meanwhile by unrelated work (e.g.
+ * a poll) are not collected.
+ */
+export function captureLog<T>(
+  lines: string[],
+  fn: () => Promise<T>
+): Promise<T> {
+  return captured.run(lines, fn);
+}
+
+function write(line: string): void {
+  getOutputChannel().appendLine(line);
+  captured.getStore()?.push(line);
+}
+
 export function debug(
   label: string,
   message?: string | unknown,
   data?: unknown
 ): void {
   if (message === undefined) {
-    getOutputChannel().appendLine(`[DEBUG] ${label}`);
+    write(`[DEBUG] ${label}`);
   } else if (data !== undefined) {
-    getOutputChannel().appendLine(
-      `[DEBUG] [${label}] ${message} ${JSON.stringify(data)}`
-    );
+    write(`[DEBUG] [${label}] ${message} ${JSON.stringify(data)}`);
   } else {
-    getOutputChannel().appendLine(`[DEBUG] [${label}] ${message}`);
+    write(`[DEBUG] [${label}] ${message}`);
   }
 }
 
 export function info(message: string): void {
-  getOutputChannel().appendLine(`[INFO] ${message}`);
+  write(`[INFO] ${message}`);
 }
 
 export function error(message: string): void {
-  getOutputChannel().appendLine(`[ERROR] ${message}`);
+  write(`[ERROR] ${message}`);
 }
@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import type { QuotaSnapshot, ModelQuotaInfo } from './lib/quota/types';
+import { getConfig } from './config';
+import { info, error } from './logger';
+
+// State keys for persisting notification preferences
+const MUTED_MODELS_KEY = 'quota-checker.notificationMutedModels';
+const SNOOZED_UNTIL_KEY = 'quota-checker.notificationSnoozedUntil';
+
+const SNOOZE_MS = 60 * 60 * 1000; // 1 hour
+
+const SNOOZE_ACTION = 'Snooze 1 Hour';
+const MUTE_ACTION = "Don't Notify for This Model";
+const MUTE_CREDITS_ACTION = "Don't Notify for Credits";
+
+// Level and mute key for the account's prompt credits
+const CREDITS_KEY = 'promptCredits';
+
+type QuotaLevel = 'ok' | 'low' | 'exhausted';
+
+/**
+ * Fires notifications when selected models (or the prompt credits) cross
+ * their low-quota threshold, run out, or come back after being exhausted.
+ *
+ * Each model notifies once per crossing. A low model is only re-armed once
+ * it climbs back above threshold + hysteresis, so small wobbles around the
+ * threshold stay quiet. The first reading for a model only sets a baseline.
+ */
+export class QuotaNotifier {
+  private levels = new Map<string, QuotaLevel>();
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  /**
+   * Check the selected models in a snapshot and notify on crossings
+   */
+  check(snapshot: QuotaSnapshot, selectedModels: string[]) {
+    const { enabled, thresholds, creditsThreshold, hysteresis } =
+      getConfig().notifications;
+    if (!enabled) {
+      return;
+    }
+
+    for (const model of snapshot.models) {
+      if (!selectedModels.includes(model.modelId)) continue;
+      if (model.remainingPercentage === undefined && !model.isExhausted) {
+        continue;
+      }
+
+      const threshold = getThreshold(model, thresholds);
+      const pct = Math.round((model.remainingPercentage ?? 0) * 100);
+      const previous = this.levels.get(model.modelId);
+      const next = nextLevel(
+        previous,
+        model.isExhausted,
+        pct,
+        threshold,
+        hysteresis
+      );
+      this.levels.set(model.modelId, next);
+
+      if (previous === undefined || previous === next) continue;
+
+      if (next === 'exhausted') {
+        this.notify(
+          model.modelId,
+          `${model.label} quota is exhausted.`,
+          'warning'
+        );
+      } else if (previous === 'exhausted') {
+        this.notify(
+          model.modelId,
+          `${model.label} quota has reset: ${pct}% available.`,
+          'info'
+        );
+      } else if (next === 'low') {
+        this.notify(
+          model.modelId,
+          `${model.label} quota is low: ${pct}% remaining.`,
+          'warning'
+        );
+      }
+    }
+
+    if (snapshot.promptCredits) {
+      const { available, monthly, remainingPercentage } =
+        snapshot.promptCredits;
+      const pct = Math.round(remainingPercentage * 100);
+      const previous = this.levels.get(CREDITS_KEY);
+      const next = nextLevel(
+        previous,
+        available <= 0,
+        pct,
+        creditsThreshold,
+        hysteresis
+      );
+      this.levels.set(CREDITS_KEY, next);
+
+      if (previous === undefined || previous === next) return;
+
+      if (next === 'exhausted') {
+        this.notify(
+          CREDITS_KEY,
+          'Prompt credits are used up for this month.',
+          'warning',
+          MUTE_CREDITS_ACTION
+        );
+      } else if (previous === 'exhausted') {
+        this.notify(
+          CREDITS_KEY,
+          `Prompt credits have been renewed: ${available} / ${monthly} available.`,
+          'info',
+          MUTE_CREDITS_ACTION
+        );
+      } else if (next === 'low') {
+        this.notify(
+          CREDITS_KEY,
+          `Prompt credits are low: ${available} / ${monthly} (${pct}%) remaining.`,
+          'warning',
+          MUTE_CREDITS_ACTION
+        );
+      }
+    }
+  }
+
+  /**
+   * Clear snooze and per-model mutes
+   */
+  async resetPreferences() {
+    await this.state.update(MUTED_MODELS_KEY, []);
+    await this.state.update(SNOOZED_UNTIL_KEY, 0);
+    info('Notification preferences reset');
+  }
+
+  /**
+   * Show a notification without holding up the poll; failures are logged
+   * @param key modelId, or CREDITS_KEY; muting is per key
+   */
+  private notify(
+    key: string,
+    message: string,
+    severity: 'warning' | 'info',
+    muteAction = MUTE_ACTION
+  ) {
+    this.showNotification(key, message, severity, muteAction).catch((err) =>
+      error(`Failed to show notification: ${err}`)
+    );
+  }
+
+  private async showNotification(
+    key: string,
+    message: string,
+    severity: 'warning' | 'info',
+    muteAction: string
+  ) {
+    const muted = this.state.get<string[]>(MUTED_MODELS_KEY, []);
+    const snoozedUntil = this.state.get<number>(SNOOZED_UNTIL_KEY, 0);
+    if (muted.includes(key) || Date.now() < snoozedUntil) {
+      info(`Notification suppressed: ${message}`);
+      return;
+    }
+
+    info(`Notification: ${message}`);
+    const action =
+      severity === 'warning'
+        ? await vscode.window.showWarningMessage(
+            message,
+            SNOOZE_ACTION,
+            muteAction
+          )
+        : await vscode.window.showInformationMessage(
+            message,
+            SNOOZE_ACTION,
+            muteAction
+          );
+
+    if (action === SNOOZE_ACTION) {
+      await this.state.update(SNOOZED_UNTIL_KEY, Date.now() + SNOOZE_MS);
+      info('Notifications snoozed for 1 hour');
+    } else if (action === muteAction) {
+      const current = this.state.get<string[]>(MUTED_MODELS_KEY, []);
+      if (!current.includes(key)) {
+        await this.state.update(MUTED_MODELS_KEY, [...current, key]);
+      }
+      info(`Notifications muted for ${key}`);
+    }
+  }
+}
+
+/**
+ * Resolve the threshold (in percent) for a model.
+ * Keys are matched against the modelId exactly, then as case-insensitive
+ * keywords against the label; "*" is the fallback.
+ */
+function getThreshold(
+  model: ModelQuotaInfo,
+  thresholds: Record<string, number>
+): number {
+  if (thresholds[model.modelId] !== undefined) {
+    return thresholds[model.modelId];
+  }
+  const label = model.label.toLowerCase();
+  for (const [key, value] of Object.entries(thresholds)) {
+    if (key !== '*' && label.includes(key.toLowerCase())) {
+      return value;
+    }
+  }
+  return thresholds['*'] ?? 20;
+}
+
+/**
+ * Compute the next level, applying hysteresis when leaving 'low'
+ */
+function nextLevel(
+  previous: QuotaLevel | undefined,
+  isExhausted: boolean,
+  pct: number,
+  threshold: number,
+  hysteresis: number
+): QuotaLevel {
+  if (isExhausted || pct <= 0) {
+    return 'exhausted';
+  }
+  if (pct <= threshold) {
+    return 'low';
+  }
+  if (previous === 'low' && pct < threshold + hysteresis) {
+    return 'low';
+  }
+  return 'ok';
+}
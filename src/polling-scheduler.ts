@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import { debug } from './logger';
+
+/**
+ * Result of a single poll, used to pick the next delay
+ */
+export interface PollOutcome {
+  failed: boolean;
+  changed: boolean; // Any model's percentage or reset time changed
+  lowQuota: boolean; // A selected model is at or below the low threshold
+  nearReset: boolean; // A selected model resets soon
+}
+
+export interface PollingOptions {
+  baseIntervalMs: number; // Interval for the current Normal/Intensive mode
+  fastIntervalMs: number; // Used while quota is low or a reset is near
+  maxIntervalMs: number; // Upper bound for idle slow-down and backoff
+  adaptive: boolean; // When false, always poll at baseIntervalMs
+}
+
+export interface PollingState {
+  consecutiveFailures: number;
+  unchangedPolls: number;
+  lastOutcome?: PollOutcome;
+  focused: boolean;
+}
+
+// Polls without any change before we start slowing down
+const IDLE_AFTER_UNCHANGED_POLLS = 3;
+
+/**
+ * Compute the delay before the next poll.
+ *
+ * - Failures back off exponentially from the base interval (even when
+ *   adaptive polling is off, so a dead language server isn't hammered)
+ * - Low quota or an imminent reset polls at the fast interval
+ * - Several unchanged polls in a row double the interval
+ * - An unfocused window doubles the interval
+ */
+export function computeNextDelay(
+  state: PollingState,
+  options: PollingOptions
+): number {
+  const { baseIntervalMs, fastIntervalMs, maxIntervalMs } = options;
+  // A max below the base interval never makes polling faster
+  const limit = Math.max(maxIntervalMs, baseIntervalMs);
+
+  if (state.consecutiveFailures > 0) {
+    const backoff = baseIntervalMs * 2 ** (state.consecutiveFailures - 1);
+    return Math.min(backoff, limit);
+  }
+
+  if (!options.adaptive) {
+    return baseIntervalMs;
+  }
+
+  let delay = baseIntervalMs;
+  if (state.lastOutcome?.lowQuota || state.lastOutcome?.nearReset) {
+    delay = Math.min(delay, fastIntervalMs);
+  } else if (state.unchangedPolls >= IDLE_AFTER_UNCHANGED_POLLS) {
+    delay *= 2;
+  }
+
+  if (!state.focused) {
+    delay *= 2;
+  }
+
+  return Math.min(delay, limit);
+}
+
+/**
+ * Runs a poll task on a timer whose delay adapts to the last outcome.
+ * Replaces a fixed setInterval: each poll schedules the next one.
+ */
+export class AdaptivePollingScheduler implements vscode.Disposable {
+  private timer: NodeJS.Timeout | undefined;
+  private options: PollingOptions | undefined;
+  private lastRunAt = 0;
+  private running = false;
+  private state: PollingState = {
+    consecutiveFailures: 0,
+    unchangedPolls: 0,
+    focused: vscode.window.state.focused,
+  };
+  private focusListener: vscode.Disposable;
+
+  constructor(private readonly task: () => Promise<PollOutcome>) {
+    // Re-evaluate the pending delay when focus changes
+    this.focusListener = vscode.window.onDidChangeWindowState((e) => {
+      if (e.focused === this.state.focused) return;
+      this.state.focused = e.focused;
+      if (this.isRunning()) {
+        this.schedule(Date.now() - this.lastRunAt);
+      }
+    });
+  }
+
+  /**
+   * Start (or restart) polling with the given options.
+   * The first poll happens after one delay, not immediately.
+   */
+  start(options: PollingOptions) {
+    this.options = options;
+    this.lastRunAt = Date.now();
+    this.schedule(0);
+  }
+
+  /**
+   * Poll right away, then carry on with the adaptive delay
+   */
+  runNow() {
+    if (!this.options) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    void this.run();
+  }
+
+  /**
+   * Update options without losing the failure/idle state
+   */
+  setOptions(options: PollingOptions) {
+    this.options = options;
+    if (this.isRunning()) {
+      this.schedule(Date.now() - this.lastRunAt);
+    }
+  }
+
+  /**
+   * Stop polling. Failures are forgotten so a later start() isn't backed off.
+   */
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.options = undefined;
+    this.state.consecutiveFailures = 0;
+  }
+
+  isRunning(): boolean {
+    return this.options !== undefined;
+  }
+
+  /**
+   * Get the delay that will be used for the next poll
+   */
+  getNextDelay(): number | undefined {
+    return this.options
+      ? computeNextDelay(this.state, this.options)
+      : undefined;
+  }
+
+  dispose() {
+    this.stop();
+    this.focusListener.dispose();
+  }
+
+  private schedule(elapsedMs: number) {
+    if (!this.options) return;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    const delay = computeNextDelay(this.state, this.options);
+    const remaining = Math.max(0, delay - elapsedMs);
+    debug(
+      'polling-scheduler',
+      `Next poll in ${Math.round(remaining / 1000)}s (delay ${Math.round(delay / 1000)}s, failures ${this.state.consecutiveFailures}, unchanged ${this.state.unchangedPolls}, focused ${this.state.focused})`
+    );
+    this.timer = setTimeout(() => this.run(), remaining);
+  }
+
+  private async run() {
+    this.timer = undefined;
+    if (this.running || !this.options) return;
+
+    this.running = true;
+    this.lastRunAt = Date.now();
+    try {
+      const outcome = await this.task();
+      this.record(outcome);
+    } catch {
+      this.record({
+        failed: true,
+        changed: false,
+        lowQuota: false,
+        nearReset: false,
+      });
+    } finally {
+      this.running = false;
+    }
+
+    this.schedule(Date.now() - this.lastRunAt);
+  }
+
+  private record(outcome: PollOutcome) {
+    if (outcome.failed) {
+      this.state.consecutiveFailures++;
+    } else {
+      this.state.consecutiveFailures = 0;
+      this.state.unchangedPolls = outcome.changed
+        ? 0
+        : this.state.unchangedPolls + 1;
+      this.state.lastOutcome = outcome;
+    }
+  }
+}
@@ -1,71 +1,164 @@
-import { detectAntigravityProcess } from './lib/local/process-detector';
-import { discoverPorts } from './lib/local/port-detective';
-import { probeForConnectAPI } from './lib/local/port-prober';
-import { ConnectClient } from './lib/local/connect-client';
+import {
+  detectAntigravityProcesses,
+  isProcessAlive,
+  AntigravityProcessInfo,
+} from './lib/local/process-detector';
+import { discoverEndpoint } from './lib/local/endpoint-discovery';
+import type { ProbeResult } from './lib/local/port-prober';
+import { ConnectClient, ConnectUserStatus } from './lib/local/connect-client';
 import { parseLocalQuotaSnapshot } from './lib/local/local-parser';
 import type { QuotaSnapshot } from './lib/quota/types';
-import { upsertAccountQuota } from './storage/quota-storage';
+import { QuotaForecaster } from './lib/quota/forecast';
+import {
+  upsertAccountQuota,
+  toQuotaSnapshot,
+  QuotaStore,
+} from './storage/quota-storage';
+import { appendQuotaHistory } from './storage/quota-history';
+import {
+  NotAuthenticatedError,
+  ProcessNotFoundError,
+  QuotaCheckerError,
+  toQuotaCheckerError,
+} from './lib/local/errors';
 import { debug, error } from './logger';
 
+// Re-run process detection this often even when every instance answers, so
+// newly opened Antigravity windows are picked up. Much longer than a poll:
+// detection shells out (ps, wmic) and failures or a gone PID rescan anyway.
+const PROCESS_RESCAN_MS = 30 * 60 * 1000;
+
+/**
+ * A language server endpoint supplied by the user instead of discovered
+ */
+export interface ManualEndpoint {
+  baseUrl: string;
+  csrfToken?: string;
+}
+
+/**
+ * Result of a one-off connection test
+ */
+export interface ConnectionTestResult {
+  source: 'manual' | 'discovered';
+  baseUrl: string;
+  pid?: number;
+  durationMs: number;
+  userStatus: ConnectUserStatus;
+}
+
+/**
+ * A discovered, working connection to one language server instance
+ */
+interface CachedConnection {
+  pid: number;
+  csrfToken?: string;
+  endpoint: ProbeResult;
+  client: ConnectClient;
+}
+
 export class QuotaService {
   private cachedSnapshot: QuotaSnapshot | null = null;
-  private lastError: Error | null = null;
+  private cachedSnapshots: QuotaSnapshot[] = [];
+  private lastError: QuotaCheckerError | null = null;
+  private forecasters = new Map<string, QuotaForecaster>();
+  private processes: AntigravityProcessInfo[] = [];
+  private connections = new Map<number, CachedConnection>();
+  private knownPorts = new Map<number, number[]>(); // PID → ports that worked
+  private lastScanAt = 0;
+  private needsRescan = true;
+  private manualClient: ConnectClient | null = null;
+  private manualEndpoint: ManualEndpoint | null = null;
 
   /**
-   * Fetch current quota from local Antigravity instance
+   * Fetch current quota from local Antigravity instances
+   * Returns the primary snapshot; all instances are available through
+   * getCachedAll()
    */
   async getQuota(): Promise<QuotaSnapshot> {
+    const snapshots = await this.getQuotas();
+    return snapshots[0];
+  }
+
+  /**
+   * Fetch quota from every running Antigravity instance in parallel,
+   * deduplicated by email. The first snapshot is the primary one (it keeps
+   * the previous primary's email when that account is still present).
+   */
+  async getQuotas(): Promise<QuotaSnapshot[]> {
     try {
       debug('quota-service', 'Fetching quota...');
 
-      // Step 1: Detect Antigravity process
-      const processInfo = await detectAntigravityProcess();
-      if (!processInfo) {
-        throw new Error('Antigravity process not found');
-      }
-
-      debug('quota-service', `Found process PID ${processInfo.pid}`);
-
-      // Step 2: Discover listening ports
-      const ports = await discoverPorts(processInfo.pid);
-      if (ports.length === 0) {
-        throw new Error('No listening ports found for Antigravity');
-      }
-
-      debug('quota-service', `Found ${ports.length} ports`);
-
-      // Step 3: Probe for Connect API
-      const endpoint = await probeForConnectAPI(ports, processInfo.csrfToken);
-      if (!endpoint) {
-        throw new Error('Could not find Connect API endpoint');
-      }
-
-      debug('quota-service', `Found endpoint: ${endpoint.baseUrl}`);
+      // Steps 1-4: Fetch user status (manual endpoint or discovered instances)
+      const statuses = this.manualClient
+        ? [await this.manualClient.getUserStatus()]
+        : await this.fetchAllUserStatuses();
 
-      // Step 4: Fetch user status
-      const client = new ConnectClient(endpoint.baseUrl, processInfo.csrfToken);
-      const userStatus = await client.getUserStatus();
+      // Step 5: Parse to QuotaSnapshots, one per account
+      const snapshots = this.dedupeByEmail(
+        statuses.map((s) => parseLocalQuotaSnapshot(s))
+      );
 
-      // Step 5: Parse to QuotaSnapshot
-      const snapshot = parseLocalQuotaSnapshot(userStatus);
+      for (const snapshot of snapshots) {
+        const key = snapshot.email ?? '';
+        let forecaster = this.forecasters.get(key);
+        if (!forecaster) {
+          forecaster = new QuotaForecaster();
+          this.forecasters.set(key, forecaster);
+        }
+        forecaster.record(snapshot);
+        forecaster.annotate(snapshot);
 
-      // Step 6: Persist to global storage
-      if (snapshot.email) {
-        await upsertAccountQuota(snapshot.email, snapshot);
+        // Step 6: Persist to global storage and history
+        if (snapshot.email) {
+          await upsertAccountQuota(snapshot.email, snapshot);
+          await appendQuotaHistory(snapshot.email, snapshot);
+        }
       }
 
-      this.cachedSnapshot = snapshot;
+      this.cachedSnapshots = snapshots;
+      this.cachedSnapshot = snapshots[0];
       this.lastError = null;
 
-      return snapshot;
+      return snapshots;
     } catch (err) {
-      const e = err instanceof Error ? err : new Error(String(err));
+      const e = toQuotaCheckerError(err);
       error(`Failed to fetch quota: ${e.message}`);
       this.lastError = e;
       throw e;
     }
   }
 
+  /**
+   * Take over a newer reading another window stored for the primary
+   * account. Returns the new primary snapshot, or null if ours is current.
+   */
+  applyStoredAccounts(store: QuotaStore): QuotaSnapshot | null {
+    const current = this.cachedSnapshot;
+    const stored = current?.email ? store[current.email] : undefined;
+    if (
+      !current?.email ||
+      !stored ||
+      stored.lastUpdated <= Date.parse(current.timestamp)
+    ) {
+      return null;
+    }
+
+    const snapshot = toQuotaSnapshot(current.email, stored);
+    const forecaster = this.forecasters.get(current.email);
+    if (forecaster) {
+      forecaster.record(snapshot);
+      forecaster.annotate(snapshot);
+    }
+
+    this.cachedSnapshot = snapshot;
+    this.cachedSnapshots = this.cachedSnapshots.map((s) =>
+      s === current ? snapshot : s
+    );
+    debug('quota-service', `Using newer stored data for ${current.email}`);
+    return snapshot;
+  }
+
   /**
    * Get cached snapshot (for sync access)
    */
@@ -73,10 +166,244 @@ export class QuotaService {
     return this.cachedSnapshot;
   }
 
+  /**
+   * Get cached snapshots for every local instance (primary first)
+   */
+  getCachedAll(): QuotaSnapshot[] {
+    return this.cachedSnapshots;
+  }
+
+  /**
+   * Look for Antigravity processes again on the next fetch, e.g. when the
+   * user refreshes by hand after opening another window
+   */
+  requestRescan() {
+    this.needsRescan = true;
+  }
+
   /**
    * Get last error
    */
-  getLastError(): Error | null {
+  getLastError(): QuotaCheckerError | null {
     return this.lastError;
   }
+
+  /**
+   * Use a fixed endpoint instead of process/port discovery.
+   * Pass null to return to auto-discovery. Returns true if it changed.
+   */
+  setManualEndpoint(endpoint: ManualEndpoint | null): boolean {
+    const same =
+      endpoint?.baseUrl === this.manualEndpoint?.baseUrl &&
+      endpoint?.csrfToken === this.manualEndpoint?.csrfToken;
+    if (same) return false;
+
+    this.manualEndpoint = endpoint;
+    this.manualClient = endpoint
+      ? new ConnectClient(endpoint.baseUrl, endpoint.csrfToken)
+      : null;
+    this.needsRescan = true;
+    debug(
+      'quota-service',
+      endpoint
+        ? `Using manual endpoint ${endpoint.baseUrl}`
+        : 'Using auto-discovery'
+    );
+    return true;
+  }
+
+  /**
+   * Call GetUserStatus once and report exactly what came back, even when
+   * signed out. Uses the manual endpoint when set, otherwise the first
+   * discovered instance. Doesn't touch the cached snapshot.
+   */
+  async testConnection(): Promise<ConnectionTestResult> {
+    const start = Date.now();
+
+    if (this.manualEndpoint) {
+      const client = new ConnectClient(
+        this.manualEndpoint.baseUrl,
+        this.manualEndpoint.csrfToken
+      );
+      const userStatus = await client.fetchUserStatus();
+      return {
+        source: 'manual',
+        baseUrl: this.manualEndpoint.baseUrl,
+        durationMs: Date.now() - start,
+        userStatus,
+      };
+    }
+
+    const [processInfo] = await detectAntigravityProcesses();
+    if (!processInfo) {
+      throw new ProcessNotFoundError();
+    }
+    const connection = await this.discover(processInfo);
+    const userStatus = await connection.client.fetchUserStatus();
+    return {
+      source: 'discovered',
+      baseUrl: connection.endpoint.baseUrl,
+      pid: processInfo.pid,
+      durationMs: Date.now() - start,
+      userStatus,
+    };
+  }
+
+  /**
+   * Fetch user status from every discovered instance in parallel
+   */
+  private async fetchAllUserStatuses(): Promise<ConnectUserStatus[]> {
+    // Step 1: Detect Antigravity processes (only when needed)
+    if (
+      this.needsRescan ||
+      this.processes.length === 0 ||
+      Date.now() - this.lastScanAt > PROCESS_RESCAN_MS
+    ) {
+      await this.rescanProcesses();
+    }
+
+    if (this.processes.length === 0) {
+      throw new ProcessNotFoundError();
+    }
+
+    // Steps 2-4: Fetch user status from every instance in parallel
+    const results = await Promise.allSettled(
+      this.processes.map((p) => this.fetchUserStatus(p))
+    );
+
+    const statuses: ConnectUserStatus[] = [];
+    let firstError: QuotaCheckerError | undefined;
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        statuses.push(result.value);
+      } else {
+        firstError ??= toQuotaCheckerError(result.reason);
+        // Something changed; look for processes again next time
+        this.needsRescan = true;
+      }
+    }
+
+    if (statuses.length === 0) {
+      throw firstError ?? new ProcessNotFoundError();
+    }
+    return statuses;
+  }
+
+  /**
+   * Re-run process detection, keeping connections for live PIDs
+   */
+  private async rescanProcesses(): Promise<void> {
+    this.processes = await detectAntigravityProcesses();
+    this.lastScanAt = Date.now();
+    this.needsRescan = false;
+
+    const pids = new Set(this.processes.map((p) => p.pid));
+    for (const pid of this.connections.keys()) {
+      if (!pids.has(pid)) {
+        debug('quota-service', `PID ${pid} is gone, dropping connection`);
+        this.connections.delete(pid);
+      }
+    }
+    for (const pid of this.knownPorts.keys()) {
+      if (!pids.has(pid)) {
+        this.knownPorts.delete(pid);
+      }
+    }
+
+    debug('quota-service', `Tracking ${this.processes.length} process(es)`);
+  }
+
+  /**
+   * Fetch user status for one instance, trying its cached connection
+   * before rediscovering
+   */
+  private async fetchUserStatus(
+    processInfo: AntigravityProcessInfo
+  ): Promise<ConnectUserStatus> {
+    const { pid } = processInfo;
+    const cached = this.connections.get(pid);
+
+    if (cached) {
+      if (!isProcessAlive(pid)) {
+        this.connections.delete(pid);
+        throw new ProcessNotFoundError(`Antigravity process ${pid} exited`);
+      }
+      try {
+        return await cached.client.getUserStatus();
+      } catch (err) {
+        // The endpoint answered; signing in is up to the user
+        if (err instanceof NotAuthenticatedError) throw err;
+        debug(
+          'quota-service',
+          `Cached endpoint ${cached.endpoint.baseUrl} failed, rediscovering: ${err instanceof Error ? err.message : err}`
+        );
+        this.connections.delete(pid);
+      }
+    }
+
+    const connection = await this.discover(processInfo);
+    const userStatus = await connection.client.getUserStatus();
+
+    // Only cache once the endpoint has actually answered
+    this.connections.set(pid, connection);
+    const port = connection.endpoint.port;
+    this.knownPorts.set(pid, [
+      port,
+      ...(this.knownPorts.get(pid) ?? []).filter((p) => p !== port),
+    ]);
+    return userStatus;
+  }
+
+  /**
+   * Run endpoint discovery for one process
+   * Previously working ports and the command-line port hint are tried
+   * before discovering and probing every listening port
+   */
+  private async discover(
+    processInfo: AntigravityProcessInfo
+  ): Promise<CachedConnection> {
+    debug('quota-service', `Discovering endpoint for PID ${processInfo.pid}`);
+
+    // Steps 2-3: Find the Connect API endpoint
+    const { endpoint, strategy } = await discoverEndpoint(
+      processInfo,
+      this.knownPorts.get(processInfo.pid)
+    );
+
+    debug(
+      'quota-service',
+      `Found endpoint: ${endpoint.baseUrl} (strategy: ${strategy})`
+    );
+
+    // Step 4: Create client
+    return {
+      pid: processInfo.pid,
+      csrfToken: processInfo.csrfToken,
+      endpoint,
+      client: new ConnectClient(endpoint.baseUrl, processInfo.csrfToken),
+    };
+  }
+
+  /**
+   * Keep one snapshot per email (instances without an email are kept as-is)
+   * and move the previous primary account to the front
+   */
+  private dedupeByEmail(snapshots: QuotaSnapshot[]): QuotaSnapshot[] {
+    const seen = new Set<string>();
+    const unique = snapshots.filter((s) => {
+      if (!s.email) return true;
+      if (seen.has(s.email)) return false;
+      seen.add(s.email);
+      return true;
+    });
+
+    const primaryEmail = this.cachedSnapshot?.email;
+    const primaryIndex = unique.findIndex(
+      (s) => primaryEmail && s.email === primaryEmail
+    );
+    if (primaryIndex > 0) {
+      unique.unshift(...unique.splice(primaryIndex, 1));
+    }
+    return unique;
+  }
 }
@@ -0,0 +1,176 @@
+/**
+ * Status bar text formatting
+ * Short labels (aliases, built-in abbreviations, disambiguation) and the
+ * user-defined per-model format template.
+ */
+
+import type { ModelQuotaInfo, PromptCreditsInfo } from './lib/quota/types';
+import { formatDuration } from './lib/quota/format';
+import type { ModelCatalog } from './lib/quota/model-catalog';
+import { debug } from './logger';
+
+export const DEFAULT_FORMAT = '{label} {percent}';
+
+// Quota at or below this fraction counts as low
+const LOW_QUOTA = 0.2;
+
+/**
+ * Short labels for the given models, keyed by modelId.
+ * Aliases win over the catalog's short labels; labels that would still
+ * collide get the word that tells them apart, or a number.
+ * @param aliases Alias keyed by modelId, or by a case-insensitive regex
+ *   tested against the label
+ */
+export function resolveShortLabels(
+  models: ModelQuotaInfo[],
+  aliases: Record<string, string>,
+  catalog: ModelCatalog
+): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const model of models) {
+    labels.set(
+      model.modelId,
+      findAlias(model, aliases) ?? catalog.classify(model).shortLabel
+    );
+  }
+  disambiguate(models, labels);
+  return labels;
+}
+
+/**
+ * Fill in a format template for one model.
+ * Tokens: {label}, {percent}, {reset} (countdown, empty if unknown) and
+ * {icon} ($(error) when exhausted, $(warning) when low, otherwise empty).
+ * Codicons like $(zap) can be used directly in the template. {reset} counts
+ * from now, so the status bar is re-rendered every minute to keep it current.
+ */
+export function formatStatusBarModel(
+  template: string,
+  model: ModelQuotaInfo,
+  label: string,
+  snapshotTime: number
+): string {
+  const resetMs = getResetMs(model, snapshotTime);
+  const tokens: Record<string, string> = {
+    label,
+    percent: formatPercent(model),
+    reset: resetMs !== undefined ? formatDuration(resetMs) : '',
+    icon: isExhausted(model) ? '$(error)' : isLow(model) ? '$(warning)' : '',
+  };
+
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => tokens[name] ?? match)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Time left until reset, counted from now rather than from the snapshot
+ */
+export function getResetMs(
+  model: ModelQuotaInfo,
+  snapshotTime: number
+): number | undefined {
+  if (model.resetTime) {
+    const resetAt = new Date(model.resetTime).getTime();
+    if (!isNaN(resetAt)) return Math.max(0, resetAt - Date.now());
+  }
+  if (model.timeUntilResetMs !== undefined) {
+    return Math.max(0, snapshotTime + model.timeUntilResetMs - Date.now());
+  }
+  return undefined;
+}
+
+// Use isExhausted flag OR remainingPercentage <= 0
+export function isExhausted(model: ModelQuotaInfo): boolean {
+  return (
+    model.isExhausted ||
+    (model.remainingPercentage !== undefined && model.remainingPercentage <= 0)
+  );
+}
+
+export function isLow(model: ModelQuotaInfo): boolean {
+  const pct = model.remainingPercentage ?? 1;
+  return pct > 0 && pct <= LOW_QUOTA;
+}
+
+/**
+ * Credits at or below the threshold, rounded like the notifications
+ * @param thresholdPercent notifications.creditsThreshold
+ */
+export function isCreditsLow(
+  credits: PromptCreditsInfo,
+  thresholdPercent: number
+): boolean {
+  return (
+    credits.available > 0 &&
+    Math.round(credits.remainingPercentage * 100) <= thresholdPercent
+  );
+}
+
+function formatPercent(model: ModelQuotaInfo): string {
+  // Show 0% if exhausted OR percentage <= 0
+  if (isExhausted(model)) return '0%';
+  if (model.remainingPercentage === undefined) return '--';
+  return `${Math.round(model.remainingPercentage * 100)}%`;
+}
+
+/**
+ * Alias for a model: exact modelId key first, then regex keys in order
+ */
+function findAlias(
+  model: ModelQuotaInfo,
+  aliases: Record<string, string>
+): string | undefined {
+  if (aliases[model.modelId]) {
+    return aliases[model.modelId];
+  }
+  for (const [pattern, alias] of Object.entries(aliases)) {
+    try {
+      if (alias && new RegExp(pattern, 'i').test(model.label)) {
+        return alias;
+      }
+    } catch {
+      debug('status-bar', `Ignoring invalid alias pattern: ${pattern}`);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rename labels shared by several models, in place.
+ * "Claude | Claude" becomes "Claude-Haiku | Claude-Nova" using the first
+ * word of each full label the others don't have; if that still collides,
+ * the models are numbered instead.
+ */
+function disambiguate(models: ModelQuotaInfo[], labels: Map<string, string>) {
+  const groups = new Map<string, ModelQuotaInfo[]>();
+  for (const model of models) {
+    const label = labels.get(model.modelId)!;
+    groups.set(label, [...(groups.get(label) ?? []), model]);
+  }
+
+  for (const [label, group] of groups) {
+    if (group.length < 2) continue;
+
+    const words = group.map((m) => getWords(m.label));
+    const renamed = group.map((model, i) => {
+      const word = words[i].find(
+        (w) =>
+          w.toLowerCase() !== label.toLowerCase() &&
+          words.every((other, j) => j === i || !other.includes(w))
+      );
+      return word ? `${label}-${word}` : undefined;
+    });
+
+    const unique =
+      renamed.every(Boolean) && new Set(renamed).size === renamed.length;
+    group.forEach((model, i) => {
+      labels.set(model.modelId, unique ? renamed[i]! : `${label}-${i + 1}`);
+    });
+  }
+}
+
+function getWords(label: string): string[] {
+  return label.split(/[\s()[\],]+/).filter(Boolean);
+}
@@ -1,25 +1,97 @@
 import * as vscode from 'vscode';
-import type { QuotaSnapshot, ModelQuotaInfo } from './lib/quota/types';
+import type {
+  QuotaSnapshot,
+  ModelQuotaInfo,
+  PromptCreditsInfo,
+} from './lib/quota/types';
+import { describeForecast } from './lib/quota/forecast';
+import { describeConnectionError } from './connection-state';
+import { formatCredits, formatDuration } from './lib/quota/format';
+import type { StatusBarConfig } from './config';
+import type { ModelCatalog } from './lib/quota/model-catalog';
+import {
+  DEFAULT_FORMAT,
+  formatStatusBarModel,
+  getResetMs,
+  isCreditsLow,
+  isExhausted,
+  isLow,
+  resolveShortLabels,
+} from './status-bar-format';
+
+const DEFAULT_TOOLTIP = 'Click to open Quota Dashboard';
+
+// Commands the Markdown tooltip may link to
+const TOOLTIP_COMMANDS = [
+  'quota-checker.refresh',
+  'quota-checker.openDashboard',
+  'quota-checker.runDiagnostics',
+];
+
+// Per-model items sit just right of where the combined item would be
+const MODEL_ITEM_PRIORITY = 100;
+
+// The credits item sits right of the quota item(s)
+const CREDITS_ITEM_PRIORITY = 99;
+
+const TOOLTIP_LINKS =
+  '[$(refresh) Refresh](command:quota-checker.refresh) · ' +
+  '[$(dashboard) Open Dashboard](command:quota-checker.openDashboard)';
+
+interface ModelItem {
+  item: vscode.StatusBarItem;
+  priority: number; // Fixed at creation
+}
 
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
+  private creditsItem: vscode.StatusBarItem; // Optional, see showCredits
+  private config: StatusBarConfig;
+  private catalog: ModelCatalog;
+  private modelItems = new Map<string, ModelItem>(); // Keyed by modelId
 
-  constructor() {
+  constructor(config: StatusBarConfig, catalog: ModelCatalog) {
+    this.config = config;
+    this.catalog = catalog;
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right,
       100
     );
     this.statusBarItem.command = 'quota-checker.openDashboard';
-    this.statusBarItem.tooltip = 'Click to open Quota Dashboard';
+    this.statusBarItem.tooltip = DEFAULT_TOOLTIP;
     this.statusBarItem.text = '$(sync~spin) Quota: Connecting...';
     this.statusBarItem.show();
+
+    this.creditsItem = vscode.window.createStatusBarItem(
+      'quota-checker.credits',
+      vscode.StatusBarAlignment.Right,
+      CREDITS_ITEM_PRIORITY
+    );
+    this.creditsItem.name = 'Quota: Prompt Credits';
+    this.creditsItem.command = 'quota-checker.openDashboard';
+  }
+
+  /**
+   * Apply new mode, format, aliases and model catalog. Takes effect on the
+   * next update().
+   */
+  setConfig(config: StatusBarConfig, catalog: ModelCatalog) {
+    if (config.mode !== this.config.mode) {
+      this.showMainItem();
+    }
+    this.config = config;
+    this.catalog = catalog;
   }
 
   /**
    * Show "Starting..." status during initial startup phase
    */
   showStarting() {
+    this.showMainItem();
+    this.creditsItem.hide();
     this.statusBarItem.text = '$(loading~spin) Quota: Starting...';
+    this.statusBarItem.tooltip = DEFAULT_TOOLTIP;
+    this.statusBarItem.command = 'quota-checker.openDashboard';
     this.statusBarItem.backgroundColor = undefined;
   }
 
@@ -27,139 +99,388 @@ export class StatusBarManager {
    * Show "Connecting..." status during startup retry
    */
   showConnecting() {
+    this.showMainItem();
+    this.creditsItem.hide();
     this.statusBarItem.text = '$(sync~spin) Quota: Connecting...';
+    this.statusBarItem.tooltip = DEFAULT_TOOLTIP;
+    this.statusBarItem.command = 'quota-checker.openDashboard';
     this.statusBarItem.backgroundColor = undefined;
   }
 
+  /**
+   * Show why there's no connection; clicking runs the suggested action
+   */
+  showDisconnected(error: Error) {
+    const { title, detail, action } = describeConnectionError(error);
+    this.showMainItem();
+    this.creditsItem.hide();
+    this.statusBarItem.text = `$(warning) Quota: ${title}`;
+    const tooltip = this.createTooltip();
+    tooltip.appendMarkdown(`**${escapeMarkdown(title)}**\n\n`);
+    tooltip.appendMarkdown(`${escapeMarkdown(detail)}\n\n`);
+    tooltip.appendMarkdown(
+      `[${escapeMarkdown(action.label)}](command:${action.command}) · ` +
+        '[$(dashboard) Open Dashboard](command:quota-checker.openDashboard)'
+    );
+    this.statusBarItem.tooltip = tooltip;
+    this.statusBarItem.command = action.command;
+    this.statusBarItem.backgroundColor = new vscode.ThemeColor(
+      'statusBarItem.warningBackground'
+    );
+  }
+
   /**
    * Update status bar with quota data
    * @param snapshot Quota snapshot
    * @param selectedModels Array of model IDs to display (from checkboxes)
-   * @param error Error if any
+   * @param error Error from the latest poll; cached data is still shown
    */
   update(
     snapshot: QuotaSnapshot | null,
     selectedModels: string[],
     error?: Error
   ) {
-    if (error) {
-      this.statusBarItem.text = '$(warning) Quota: Error';
-      this.statusBarItem.backgroundColor = new vscode.ThemeColor(
-        'statusBarItem.warningBackground'
-      );
+    this.statusBarItem.tooltip = DEFAULT_TOOLTIP;
+    this.statusBarItem.command = 'quota-checker.openDashboard';
+
+    if (error && !snapshot) {
+      this.showDisconnected(error);
       return;
     }
 
     if (!snapshot) {
+      this.showMainItem();
+      this.creditsItem.hide();
       this.statusBarItem.text = '$(sync~spin) Quota: Loading...';
       this.statusBarItem.backgroundColor = undefined;
       return;
     }
 
-    // Filter models based on selected checkboxes
-    const modelsToShow = snapshot.models
-      .filter((m) => selectedModels.includes(m.modelId))
-      .sort((a, b) => {
-        // Sort by provider priority: Claude → Gemini → GPT → Other
-        const getPriority = (model: ModelQuotaInfo): number => {
-          const lower = model.label.toLowerCase();
-          if (
-            lower.includes('claude') ||
-            lower.includes('sonnet') ||
-            lower.includes('opus')
-          )
-            return 0;
-          if (
-            lower.includes('gemini') ||
-            lower.includes('flash') ||
-            lower.includes('pro')
-          )
-            return 1;
-          if (
-            lower.includes('gpt') ||
-            lower.includes('4o') ||
-            lower.includes('o1')
-          )
-            return 2;
-          return 3;
-        };
-        return getPriority(a) - getPriority(b);
-      });
+    // Filter models based on selected checkboxes, in catalog order
+    const modelsToShow = this.catalog.sort(
+      snapshot.models.filter((m) => selectedModels.includes(m.modelId))
+    );
+
+    const labels = resolveShortLabels(
+      modelsToShow,
+      this.config.aliases,
+      this.catalog
+    );
+    this.updateCreditsItem(snapshot, error);
+
+    if (this.config.mode === 'perModel' && modelsToShow.length > 0) {
+      this.statusBarItem.hide();
+      this.syncModelItems(snapshot, modelsToShow, labels, error);
+      return;
+    }
+
+    this.showMainItem();
+    this.statusBarItem.tooltip = this.buildTooltip(
+      snapshot,
+      modelsToShow,
+      labels,
+      error
+    );
 
     if (modelsToShow.length === 0) {
       this.statusBarItem.text = '$(dashboard) Quota: Select models';
       this.statusBarItem.backgroundColor = undefined;
     } else {
-      const parts = modelsToShow.map((m) => this.formatModel(m));
-      this.statusBarItem.text = `$(dashboard) ${parts.join(' | ')}`;
-
-      // Check for exhausted models (only selected ones) - show error
-      // Use isExhausted flag OR remainingPercentage <= 0
-      const exhausted = modelsToShow.some(
-        (m) =>
-          m.isExhausted ||
-          (m.remainingPercentage !== undefined && m.remainingPercentage <= 0)
+      const parts = modelsToShow.map((m) =>
+        this.formatModel(m, labels, snapshot)
       );
-      // Check for low quota (<= 20%) - show warning
-      const lowQuota = modelsToShow.some((m) => {
-        const pct = m.remainingPercentage ?? 1;
-        return pct > 0 && pct <= 0.2;
-      });
-
-      if (exhausted) {
-        this.statusBarItem.backgroundColor = new vscode.ThemeColor(
-          'statusBarItem.errorBackground'
-        );
-      } else if (lowQuota) {
-        this.statusBarItem.backgroundColor = new vscode.ThemeColor(
-          'statusBarItem.warningBackground'
+      if (error) {
+        // Stale: the latest poll failed, so show how old these values are
+        const age = formatDuration(
+          Date.now() - new Date(snapshot.timestamp).getTime()
         );
+        this.statusBarItem.text = `$(warning) ${parts.join(' | ')} · ${age} old`;
       } else {
-        this.statusBarItem.backgroundColor = undefined;
+        this.statusBarItem.text = `$(dashboard) ${parts.join(' | ')}`;
       }
+
+      this.statusBarItem.backgroundColor =
+        this.getBackgroundColor(modelsToShow);
     }
   }
 
-  private formatModel(model: ModelQuotaInfo): string {
-    const label = this.getShortLabel(model.label);
-    const pct = model.remainingPercentage;
+  /**
+   * Show the combined item and remove any per-model items
+   */
+  private showMainItem() {
+    for (const { item } of this.modelItems.values()) {
+      item.dispose();
+    }
+    this.modelItems.clear();
+    this.statusBarItem.show();
+  }
 
-    // Show 0% if exhausted OR percentage <= 0
-    if (model.isExhausted || (pct !== undefined && pct <= 0)) {
-      return `${label} 0%`;
+  /**
+   * One item per selected model, in status bar order, each with its own
+   * colour and tooltip; clicking opens the dashboard at that model
+   */
+  private syncModelItems(
+    snapshot: QuotaSnapshot,
+    models: ModelQuotaInfo[],
+    labels: Map<string, string>,
+    error?: Error
+  ) {
+    const shown = new Set(models.map((m) => m.modelId));
+    for (const [modelId, { item }] of this.modelItems) {
+      if (!shown.has(modelId)) {
+        item.dispose();
+        this.modelItems.delete(modelId);
+      }
     }
 
-    if (pct === undefined) {
-      return `${label}: --`;
+    models.forEach((model, index) => {
+      const priority = MODEL_ITEM_PRIORITY - index / 100;
+      let entry = this.modelItems.get(model.modelId);
+      // Priority can't be changed, so recreate the item when the order moves
+      if (entry && entry.priority !== priority) {
+        entry.item.dispose();
+        entry = undefined;
+      }
+      if (!entry) {
+        entry = {
+          item: vscode.window.createStatusBarItem(
+            `quota-checker.model.${model.modelId}`,
+            vscode.StatusBarAlignment.Right,
+            priority
+          ),
+          priority,
+        };
+        this.modelItems.set(model.modelId, entry);
+      }
+
+      const { item } = entry;
+      item.name = `Quota: ${model.label}`;
+      // Stale: the latest poll failed, the age is in the tooltip
+      item.text =
+        (error ? '$(warning) ' : '') +
+        this.formatModel(model, labels, snapshot);
+      item.tooltip = this.buildModelTooltip(snapshot, model, error);
+      item.command = {
+        title: 'Open Quota Dashboard',
+        command: 'quota-checker.openDashboard',
+        arguments: [model.modelId],
+      };
+      item.backgroundColor = this.getBackgroundColor([model]);
+      item.show();
+    });
+  }
+
+  /**
+   * Prompt credits as their own item, when enabled and reported
+   */
+  private updateCreditsItem(snapshot: QuotaSnapshot, error?: Error) {
+    const credits = snapshot.promptCredits;
+    if (!this.config.showCredits || !credits) {
+      this.creditsItem.hide();
+      return;
     }
 
-    return `${label} ${Math.round(pct * 100)}%`;
+    this.creditsItem.text =
+      (error ? '$(warning) ' : '$(credit-card) ') +
+      `${credits.available.toLocaleString()}/${credits.monthly.toLocaleString()}`;
+
+    const tooltip = this.createTooltip();
+    this.appendAccountHeader(tooltip, snapshot, error);
+    tooltip.appendMarkdown(`${this.formatCreditsDetail(credits)}\n\n`);
+    tooltip.appendMarkdown(TOOLTIP_LINKS);
+    this.creditsItem.tooltip = tooltip;
+
+    this.creditsItem.backgroundColor =
+      credits.available <= 0
+        ? new vscode.ThemeColor('statusBarItem.errorBackground')
+        : isCreditsLow(credits, this.config.creditsThreshold)
+          ? new vscode.ThemeColor('statusBarItem.warningBackground')
+          : undefined;
+    this.creditsItem.show();
   }
 
-  private getShortLabel(label: string): string {
-    // Extract short name (e.g., "Claude 3.5 Sonnet" → "Sonnet")
-    // For more specific display, extract the model variant
-    const lower = label.toLowerCase();
+  /**
+   * Red if any model is exhausted, yellow if any is at or below 20%
+   */
+  private getBackgroundColor(
+    models: ModelQuotaInfo[]
+  ): vscode.ThemeColor | undefined {
+    if (models.some(isExhausted)) {
+      return new vscode.ThemeColor('statusBarItem.errorBackground');
+    }
+    if (models.some(isLow)) {
+      return new vscode.ThemeColor('statusBarItem.warningBackground');
+    }
+    return undefined;
+  }
 
-    if (lower.includes('sonnet')) {
-      if (lower.includes('thinking')) return 'Sonnet-T';
-      return 'Sonnet';
+  /**
+   * Hover card: every model in the snapshot, prompt credits, account and age
+   * @param selected Models shown in the status bar (get forecast lines)
+   */
+  private buildTooltip(
+    snapshot: QuotaSnapshot,
+    selected: ModelQuotaInfo[],
+    labels: Map<string, string>,
+    error?: Error
+  ): vscode.MarkdownString {
+    const tooltip = this.createTooltip();
+    this.appendAccountHeader(tooltip, snapshot, error);
+
+    const models = this.catalog.sort(snapshot.models);
+    if (models.length > 0) {
+      tooltip.appendMarkdown('| Model | Remaining | Resets in |\n');
+      tooltip.appendMarkdown('|:--|--:|--:|\n');
+      for (const model of models) {
+        tooltip.appendMarkdown(
+          `| ${escapeMarkdown(model.label)} ` +
+            `| ${this.formatRemaining(model)} ` +
+            `| ${this.formatReset(model, snapshot)} |\n`
+        );
+      }
+      tooltip.appendMarkdown('\n');
     }
-    if (lower.includes('opus')) return 'Opus';
-    if (lower.includes('flash')) return 'Flash';
-    if (lower.includes('pro')) {
-      if (lower.includes('thinking')) return 'Pro-T';
-      if (lower.includes('low')) return 'Pro-L';
-      return 'Pro';
+
+    // Burn-rate forecasts for the models in the status bar
+    const forecastLines = selected
+      .map((m) => {
+        const forecast = describeForecast(m);
+        return forecast
+          ? escapeMarkdown(`${labels.get(m.modelId)}: ${forecast}`)
+          : '';
+      })
+      .filter(Boolean);
+    if (forecastLines.length > 0) {
+      tooltip.appendMarkdown(`${forecastLines.join('  \n')}\n\n`);
     }
-    if (lower.includes('4o')) return '4o';
-    if (lower.includes('o1')) return 'o1';
 
-    // Fallback: first word
-    return label.split(' ')[0];
+    if (snapshot.promptCredits) {
+      tooltip.appendMarkdown(
+        `${this.formatCreditsDetail(snapshot.promptCredits)}\n\n`
+      );
+    }
+
+    tooltip.appendMarkdown(TOOLTIP_LINKS);
+    return tooltip;
+  }
+
+  /**
+   * Hover card for a single model's item
+   */
+  private buildModelTooltip(
+    snapshot: QuotaSnapshot,
+    model: ModelQuotaInfo,
+    error?: Error
+  ): vscode.MarkdownString {
+    const tooltip = this.createTooltip();
+    this.appendAccountHeader(tooltip, snapshot, error);
+
+    tooltip.appendMarkdown(`**${escapeMarkdown(model.label)}**  \n`);
+    tooltip.appendMarkdown(`Remaining: ${this.formatRemaining(model)}  \n`);
+    tooltip.appendMarkdown(
+      `Resets in: ${this.formatReset(model, snapshot)}\n\n`
+    );
+    const forecast = describeForecast(model);
+    if (forecast) {
+      tooltip.appendMarkdown(`${escapeMarkdown(forecast)}\n\n`);
+    }
+
+    const args = encodeURIComponent(JSON.stringify([model.modelId]));
+    tooltip.appendMarkdown(
+      '[$(refresh) Refresh](command:quota-checker.refresh) · ' +
+        `[$(dashboard) Show in Dashboard](command:quota-checker.openDashboard?${args})`
+    );
+    return tooltip;
+  }
+
+  /**
+   * Account email, then when the data was fetched (or that refreshing failed)
+   */
+  private appendAccountHeader(
+    tooltip: vscode.MarkdownString,
+    snapshot: QuotaSnapshot,
+    error?: Error
+  ) {
+    const updatedAt = new Date(snapshot.timestamp);
+    const age = formatDuration(Date.now() - updatedAt.getTime());
+    const time = updatedAt.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    const plan = snapshot.planType
+      ? ` · ${escapeMarkdown(snapshot.planType)} plan`
+      : '';
+    tooltip.appendMarkdown(
+      `**${escapeMarkdown(snapshot.email || 'Local account')}**${plan}\n\n`
+    );
+    if (error) {
+      // Mention the failed poll when showing the last good data
+      const { title } = describeConnectionError(error);
+      tooltip.appendMarkdown(
+        `$(warning) Last update failed: ${escapeMarkdown(title)} — ` +
+          `showing data from ${time} (${age} old)\n\n`
+      );
+    } else {
+      tooltip.appendMarkdown(`Updated ${time} (${age} ago)\n\n`);
+    }
+  }
+
+  private createTooltip(): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString('', true);
+    // Links may only run our own commands
+    tooltip.isTrusted = { enabledCommands: TOOLTIP_COMMANDS };
+    return tooltip;
+  }
+
+  private formatRemaining(model: ModelQuotaInfo): string {
+    if (isExhausted(model)) return '**Exhausted**';
+    const pct = model.remainingPercentage;
+    return pct === undefined ? '--' : `${Math.round(pct * 100)}%`;
+  }
+
+  private formatReset(model: ModelQuotaInfo, snapshot: QuotaSnapshot): string {
+    const resetMs = getResetMs(model, new Date(snapshot.timestamp).getTime());
+    return resetMs !== undefined ? formatDuration(resetMs) : '—';
+  }
+
+  private formatCreditsDetail(credits: PromptCreditsInfo): string {
+    const used = Math.max(0, credits.monthly - credits.available);
+    return (
+      `Prompt credits: ${formatCredits(credits)} · ` +
+      `${used.toLocaleString()} used this month`
+    );
+  }
+
+  /**
+   * One model's status bar text, from the user's format template
+   */
+  private formatModel(
+    model: ModelQuotaInfo,
+    labels: Map<string, string>,
+    snapshot: QuotaSnapshot
+  ): string {
+    return formatStatusBarModel(
+      this.config.format || DEFAULT_FORMAT,
+      model,
+      labels.get(model.modelId) ?? model.label,
+      new Date(snapshot.timestamp).getTime()
+    );
   }
 
   dispose() {
+    for (const { item } of this.modelItems.values()) {
+      item.dispose();
+    }
+    this.modelItems.clear();
+    this.creditsItem.dispose();
     this.statusBarItem.dispose();
   }
 }
+
+/**
+ * Escape text for a Markdown tooltip, including table cell separators
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
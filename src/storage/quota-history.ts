@@ -0,0 +1,277 @@
+/**
+ * Quota history module
+ * Appends every quota reading to ~/.quota-checker/history.jsonl so usage
+ * over time can be charted and analysed
+ *
+ * Appends and compaction share a lockfile with other windows, so a reading
+ * appended while the file is being rewritten isn't lost.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { QuotaSnapshot } from '../lib/quota/types';
+import { withFileLock } from './quota-storage';
+import { debug, error } from '../logger';
+
+const HISTORY_FILE = path.join(os.homedir(), '.quota-checker', 'history.jsonl');
+const HISTORY_LOCK_FILE = `${HISTORY_FILE}.lock`;
+
+// Readings older than this are dropped during compaction
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Readings older than this are downsampled to one per bucket
+const FULL_RESOLUTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+const DOWNSAMPLE_BUCKET_MS = 15 * 60 * 1000; // 15 minutes
+
+// Minimum time between compactions
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+let lastCompactedAt = 0;
+
+/**
+ * A single persisted quota reading
+ */
+export interface QuotaHistoryEntry {
+  timestamp: number; // Unix timestamp (ms) of the reading
+  email: string;
+  modelId: string;
+  label: string;
+  remainingPercentage: number;
+  resetAt?: number; // Absolute Unix timestamp (ms) of the next reset
+}
+
+/**
+ * Filter for history queries. All fields are optional.
+ */
+export interface QuotaHistoryQuery {
+  email?: string;
+  modelId?: string;
+  since?: number; // Inclusive lower bound (ms)
+  until?: number; // Inclusive upper bound (ms)
+}
+
+/**
+ * Append one entry per model in the snapshot to the history file
+ */
+export async function appendQuotaHistory(
+  email: string,
+  snapshot: QuotaSnapshot
+): Promise<void> {
+  try {
+    const lines = toHistoryEntries(email, snapshot).map((entry) =>
+      JSON.stringify(entry)
+    );
+
+    if (lines.length === 0) {
+      return;
+    }
+
+    await withFileLock(HISTORY_LOCK_FILE, () =>
+      fs.promises.appendFile(HISTORY_FILE, lines.join('\n') + '\n', 'utf-8')
+    );
+    debug('quota-history', `Appended ${lines.length} entries for ${email}`);
+
+    if (Date.now() - lastCompactedAt > COMPACTION_INTERVAL_MS) {
+      await compactQuotaHistory();
+    }
+  } catch (err) {
+    error(`Failed to append quota history: ${err}`);
+    // Don't throw - history failure shouldn't break the extension
+  }
+}
+
+/**
+ * The history entries recorded for a snapshot, one per model
+ */
+export function toHistoryEntries(
+  email: string,
+  snapshot: QuotaSnapshot
+): QuotaHistoryEntry[] {
+  const timestamp = Date.parse(snapshot.timestamp) || Date.now();
+  return snapshot.models.map((model) => ({
+    timestamp,
+    email,
+    modelId: model.modelId,
+    label: model.label,
+    remainingPercentage: model.remainingPercentage ?? 0,
+    // Use the absolute server reset time so identical readings compare equal
+    resetAt: model.resetTime
+      ? Date.parse(model.resetTime) || undefined
+      : undefined,
+  }));
+}
+
+/**
+ * Read all history entries from disk
+ * Skips malformed lines (e.g. a partially written last line)
+ */
+async function readHistoryEntries(): Promise<QuotaHistoryEntry[]> {
+  let data: string;
+  try {
+    data = await fs.promises.readFile(HISTORY_FILE, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw err;
+  }
+
+  const entries: QuotaHistoryEntry[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as QuotaHistoryEntry;
+      if (
+        typeof entry.timestamp === 'number' &&
+        typeof entry.email === 'string' &&
+        typeof entry.modelId === 'string' &&
+        typeof entry.remainingPercentage === 'number'
+      ) {
+        entries.push(entry);
+      }
+    } catch {
+      // Ignore malformed line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Query history entries, sorted by timestamp ascending
+ */
+export async function queryQuotaHistory(
+  query: QuotaHistoryQuery = {}
+): Promise<QuotaHistoryEntry[]> {
+  try {
+    const entries = await readHistoryEntries();
+    return entries
+      .filter(
+        (e) =>
+          (query.email === undefined || e.email === query.email) &&
+          (query.modelId === undefined || e.modelId === query.modelId) &&
+          (query.since === undefined || e.timestamp >= query.since) &&
+          (query.until === undefined || e.timestamp <= query.until)
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+  } catch (err) {
+    error(`Failed to query quota history: ${err}`);
+    return [];
+  }
+}
+
+/**
+ * Get history for one account grouped by modelId (for dashboard charts)
+ */
+export async function getAccountHistory(
+  email: string,
+  since?: number
+): Promise<Record<string, QuotaHistoryEntry[]>> {
+  const entries = await queryQuotaHistory({ email, since });
+  const byModel: Record<string, QuotaHistoryEntry[]> = {};
+  for (const entry of entries) {
+    (byModel[entry.modelId] ??= []).push(entry);
+  }
+  return byModel;
+}
+
+/**
+ * Compact the history file:
+ * - drop entries older than the retention window
+ * - downsample entries older than 24h to the last reading per 15m bucket
+ * - collapse runs of identical readings to their first and last entry
+ */
+export async function compactQuotaHistory(): Promise<void> {
+  lastCompactedAt = Date.now();
+
+  try {
+    await withFileLock(HISTORY_LOCK_FILE, rewriteCompacted);
+  } catch (err) {
+    error(`Failed to compact quota history: ${err}`);
+  }
+}
+
+/**
+ * Read, compact and atomically replace the history file (call with the
+ * lock held)
+ */
+async function rewriteCompacted(): Promise<void> {
+  const entries = await readHistoryEntries();
+  const now = Date.now();
+
+  // Group by account + model, preserving time order
+  const series = new Map<string, QuotaHistoryEntry[]>();
+  for (const entry of entries) {
+    if (now - entry.timestamp > RETENTION_MS) continue;
+    const key = `${entry.email}\u0000${entry.modelId}`;
+    let list = series.get(key);
+    if (!list) {
+      list = [];
+      series.set(key, list);
+    }
+    list.push(entry);
+  }
+
+  const compacted: QuotaHistoryEntry[] = [];
+  for (const list of series.values()) {
+    list.sort((a, b) => a.timestamp - b.timestamp);
+    compacted.push(...collapseRuns(downsample(list, now)));
+  }
+  compacted.sort((a, b) => a.timestamp - b.timestamp);
+
+  const tmpFile = `${HISTORY_FILE}.${process.pid}.tmp`;
+  await fs.promises.writeFile(
+    tmpFile,
+    compacted.map((e) => JSON.stringify(e)).join('\n') +
+      (compacted.length > 0 ? '\n' : ''),
+    'utf-8'
+  );
+  await fs.promises.rename(tmpFile, HISTORY_FILE);
+
+  debug(
+    'quota-history',
+    `Compacted history: ${entries.length} → ${compacted.length} entries`
+  );
+}
+
+/**
+ * Keep only the last reading per bucket for entries outside the
+ * full-resolution window
+ */
+function downsample(
+  list: QuotaHistoryEntry[],
+  now: number
+): QuotaHistoryEntry[] {
+  const result: QuotaHistoryEntry[] = [];
+  for (const entry of list) {
+    const prev = result[result.length - 1];
+    if (
+      prev &&
+      now - entry.timestamp > FULL_RESOLUTION_MS &&
+      Math.floor(prev.timestamp / DOWNSAMPLE_BUCKET_MS) ===
+        Math.floor(entry.timestamp / DOWNSAMPLE_BUCKET_MS)
+    ) {
+      result[result.length - 1] = entry;
+    } else {
+      result.push(entry);
+    }
+  }
+  return result;
+}
+
+/**
+ * Drop the middle of any run of identical readings, keeping the first and
+ * last so the chart still knows how long the value held
+ */
+function collapseRuns(list: QuotaHistoryEntry[]): QuotaHistoryEntry[] {
+  const isSame = (a: QuotaHistoryEntry, b: QuotaHistoryEntry) =>
+    a.remainingPercentage === b.remainingPercentage && a.resetAt === b.resetAt;
+
+  return list.filter(
+    (entry, i) =>
+      i === 0 ||
+      i === list.length - 1 ||
+      !isSame(list[i - 1], entry) ||
+      !isSame(entry, list[i + 1])
+  );
+}
@@ -1,17 +1,59 @@
 /**
  * Global quota storage module
  * Persists quota data to ~/.quota-checker/quota.json
+ *
+ * Several windows share the file: writes take a lockfile, re-read the file
+ * and merge by lastUpdated, then replace it atomically (temp file + rename),
+ * so readers never see a partial file.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import type { QuotaSnapshot, ModelQuotaInfo } from '../lib/quota/types';
+import { randomUUID } from 'crypto';
+import type {
+  QuotaSnapshot,
+  ModelQuotaInfo,
+  PromptCreditsInfo,
+} from '../lib/quota/types';
 import { debug, error } from '../logger';
 
 // Storage directory and file paths
 const QUOTA_DIR = path.join(os.homedir(), '.quota-checker');
 const QUOTA_FILE = path.join(QUOTA_DIR, 'quota.json');
+const LOCK_FILE = `${QUOTA_FILE}.lock`;
+
+// Current file format; bump it and add a migration when the shape changes
+const STORE_VERSION = 2;
+
+// Waiting for another window's lock
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 5000;
+
+// A lock older than this was left behind by a crashed window
+const STALE_LOCK_MS = 10 * 1000;
+
+// A write produces several file events; report them as one change
+const WATCH_DEBOUNCE_MS = 500;
+
+// Wait this long before watching again after the watch fails
+const WATCH_RETRY_MS = 30 * 1000;
+
+// Written into quota.json by this window, so the watcher can tell its own
+// writes apart from other windows' (mtimes can be too coarse for that)
+const WRITER_ID = randomUUID();
+
+// Observed reset times kept per model for learning its cycle
+const MAX_RESET_TIMES = 10;
+
+// resetAt shifts slightly between polls; a larger jump is a new window
+const RESET_JITTER_MS = 5 * 60 * 1000;
+
+// Gaps shorter than this are noise, not a cycle
+const MIN_CYCLE_MS = 60 * 60 * 1000;
+
+// Inferred cycles are rounded to this, e.g. 4h58m → 5h
+const CYCLE_ROUNDING_MS = 15 * 60 * 1000;
 
 /**
  * Stored model quota with absolute reset timestamp
@@ -23,6 +65,8 @@ export interface StoredModelQuota {
   isExhausted: boolean;
   resetAt: number; // Absolute Unix timestamp (ms) - used when quota < 100%
   frozenResetMs?: number; // Frozen remaining time (ms) - used when quota = 100%
+  resetTimes?: number[]; // Observed window ends (ms), oldest first
+  cycleMs?: number; // Reset cycle inferred from resetTimes
 }
 
 /**
@@ -30,6 +74,8 @@ export interface StoredModelQuota {
  */
 export interface StoredAccountQuota {
   lastUpdated: number; // Unix timestamp (ms) when this account was last polled
+  planType?: string;
+  promptCredits?: PromptCreditsInfo;
   models: Record<string, StoredModelQuota>;
 }
 
@@ -40,6 +86,46 @@ export interface QuotaStore {
   [email: string]: StoredAccountQuota;
 }
 
+/**
+ * On-disk format of quota.json
+ */
+interface QuotaFile {
+  version: number;
+  writer?: string; // WRITER_ID of the window that wrote it last
+  accounts: QuotaStore;
+}
+
+/**
+ * Upgrade a file from the version it's keyed by to the next one
+ */
+const MIGRATIONS: Record<
+  number,
+  (data: Record<string, unknown>) => Record<string, unknown>
+> = {
+  // v1: the file was the bare map of accounts
+  1: (data) => ({ version: 2, accounts: data }),
+};
+
+/**
+ * quota.json exists but can't be used; it gets moved aside
+ */
+class CorruptStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorruptStoreError';
+  }
+}
+
+/**
+ * quota.json was written by a newer version of the extension
+ */
+class NewerStoreError extends Error {
+  constructor(version: number) {
+    super(`quota.json has version ${version}, newer than ${STORE_VERSION}`);
+    this.name = 'NewerStoreError';
+  }
+}
+
 /**
  * Ensure the quota directory exists
  */
@@ -55,17 +141,35 @@ export async function ensureQuotaDir(): Promise<void> {
 
 /**
  * Read the quota store from disk
- * Returns empty object if file doesn't exist
+ * Returns empty object if file doesn't exist. A corrupt file is moved aside
+ * (to quota.json.corrupt-<time>) so the next write starts fresh.
  */
 export async function readQuotaStore(): Promise<QuotaStore> {
   try {
-    const data = await fs.promises.readFile(QUOTA_FILE, 'utf-8');
-    const store = JSON.parse(data) as QuotaStore;
+    const store = await readStoreFile();
     debug(
       'quota-storage',
       `Read quota store: ${Object.keys(store).length} accounts`
     );
     return store;
+  } catch (err) {
+    if (err instanceof CorruptStoreError) {
+      await withStoreLock(recoverCorruptStore);
+      return {};
+    }
+    error(`Failed to read quota store: ${err}`);
+    throw err;
+  }
+}
+
+/**
+ * Read and migrate quota.json
+ * @throws CorruptStoreError if it isn't a valid store
+ */
+async function readStoreFile(): Promise<QuotaStore> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(QUOTA_FILE, 'utf-8');
   } catch (err) {
     if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
       debug(
@@ -74,30 +178,234 @@ export async function readQuotaStore(): Promise<QuotaStore> {
       );
       return {};
     }
-    error(`Failed to read quota store: ${err}`);
     throw err;
   }
+  return parseQuotaFile(text).accounts;
 }
 
 /**
- * Write the quota store to disk
+ * Read the store before changing it (call with the lock held).
+ * A corrupt file is moved aside; a newer format is left alone.
  */
-export async function writeQuotaStore(store: QuotaStore): Promise<void> {
+async function readStoreFileForUpdate(): Promise<QuotaStore> {
+  try {
+    return await readStoreFile();
+  } catch (err) {
+    if (err instanceof CorruptStoreError) {
+      await recoverCorruptStore();
+      return {};
+    }
+    throw err;
+  }
+}
+
+/**
+ * Parse the file, apply migrations and drop malformed accounts
+ */
+function parseQuotaFile(text: string): QuotaFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new CorruptStoreError(`Invalid JSON: ${err}`);
+  }
+  if (!isRecord(data)) {
+    throw new CorruptStoreError('Not a JSON object');
+  }
+
+  // Files without a version predate versioning
+  let version = typeof data.version === 'number' ? data.version : 1;
+  if (version > STORE_VERSION) {
+    throw new NewerStoreError(version);
+  }
+  while (version < STORE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new CorruptStoreError(`Unknown version ${version}`);
+    }
+    data = migrate(data as Record<string, unknown>);
+    version = (data as Record<string, unknown>).version as number;
+    debug('quota-storage', `Migrated quota file to version ${version}`);
+  }
+
+  const accounts = (data as Record<string, unknown>).accounts;
+  if (!isRecord(accounts)) {
+    throw new CorruptStoreError('Missing accounts');
+  }
+
+  const store: QuotaStore = {};
+  for (const [email, account] of Object.entries(accounts)) {
+    if (
+      isRecord(account) &&
+      typeof account.lastUpdated === 'number' &&
+      isRecord(account.models)
+    ) {
+      store[email] = account as unknown as StoredAccountQuota;
+    } else {
+      debug('quota-storage', `Dropping malformed account: ${email}`);
+    }
+  }
+  const { writer } = data as Record<string, unknown>;
+  return {
+    version,
+    writer: typeof writer === 'string' ? writer : undefined,
+    accounts: store,
+  };
+}
+
+/**
+ * Replace quota.json atomically (call with the lock held)
+ */
+async function writeStoreFile(store: QuotaStore): Promise<void> {
+  const file: QuotaFile = {
+    version: STORE_VERSION,
+    writer: WRITER_ID,
+    accounts: store,
+  };
+  const tempFile = `${QUOTA_FILE}.${process.pid}.${Date.now()}.tmp`;
   try {
-    await ensureQuotaDir();
     await fs.promises.writeFile(
-      QUOTA_FILE,
-      JSON.stringify(store, null, 2),
+      tempFile,
+      JSON.stringify(file, null, 2),
       'utf-8'
     );
-    debug(
-      'quota-storage',
-      `Wrote quota store: ${Object.keys(store).length} accounts`
-    );
+    await fs.promises.rename(tempFile, QUOTA_FILE);
   } catch (err) {
-    error(`Failed to write quota store: ${err}`);
+    await fs.promises.unlink(tempFile).catch(() => undefined);
     throw err;
   }
+  debug(
+    'quota-storage',
+    `Wrote quota store: ${Object.keys(store).length} accounts`
+  );
+}
+
+/**
+ * Move a corrupt quota.json aside (call with the lock held). Re-checks
+ * first, in case another window already replaced it.
+ */
+async function recoverCorruptStore(): Promise<void> {
+  try {
+    parseQuotaFile(await fs.promises.readFile(QUOTA_FILE, 'utf-8'));
+    return;
+  } catch (err) {
+    if (!(err instanceof CorruptStoreError)) return;
+    const aside = `${QUOTA_FILE}.corrupt-${Date.now()}`;
+    await fs.promises.rename(QUOTA_FILE, aside);
+    error(`Quota store was corrupt (${err.message}); moved it to ${aside}`);
+  }
+}
+
+/**
+ * Run fn while holding the quota.json lock
+ */
+function withStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+  return withFileLock(LOCK_FILE, fn);
+}
+
+/**
+ * Run fn while holding a cross-process lockfile in ~/.quota-checker
+ * (created with O_EXCL). A lock older than STALE_LOCK_MS is taken over.
+ */
+export async function withFileLock<T>(
+  lockFile: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  await ensureQuotaDir();
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const handle = await fs.promises.open(lockFile, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw err;
+      }
+      if (await removeStaleLock(lockFile)) continue;
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${lockFile}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.promises.unlink(lockFile).catch(() => undefined);
+  }
+}
+
+/**
+ * Take over a lock left by a crashed window. The lock is renamed aside
+ * first, so only one window can claim it; if what got renamed is a fresh
+ * lock another window took in the meantime, it is put back.
+ * @returns true if the lock is gone (removed as stale, or released meanwhile)
+ */
+async function removeStaleLock(lockFile: string): Promise<boolean> {
+  const aside = `${lockFile}.${process.pid}.${Date.now()}.stale`;
+  let stale: fs.Stats;
+  try {
+    stale = await fs.promises.stat(lockFile);
+    if (Date.now() - stale.mtimeMs < STALE_LOCK_MS) {
+      return false;
+    }
+    await fs.promises.rename(lockFile, aside);
+  } catch {
+    return true;
+  }
+
+  // Inode numbers can be reused right away, so compare the mtime as well
+  const claimed = await fs.promises.stat(aside).catch(() => undefined);
+  const isSameLock =
+    !claimed ||
+    (claimed.ino === stale.ino && claimed.mtimeMs === stale.mtimeMs);
+  if (!isSameLock) {
+    await fs.promises.link(aside, lockFile).catch(() => undefined);
+  }
+  await fs.promises.unlink(aside).catch(() => undefined);
+
+  if (isSameLock) {
+    debug('quota-storage', `Removed stale lock file ${lockFile}`);
+  }
+  return isSameLock;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turn a stored account back into a snapshot, e.g. to show a reading another
+ * window stored for the account this window is showing
+ */
+export function toQuotaSnapshot(
+  email: string,
+  account: StoredAccountQuota
+): QuotaSnapshot {
+  return {
+    timestamp: new Date(account.lastUpdated).toISOString(),
+    method: 'local',
+    email,
+    planType: account.planType,
+    promptCredits: account.promptCredits,
+    models: Object.values(account.models).map((model) => ({
+      label: model.label,
+      modelId: model.modelId,
+      remainingPercentage: model.remainingPercentage,
+      isExhausted: model.isExhausted,
+      resetTime:
+        model.frozenResetMs === undefined && model.resetAt > 0
+          ? new Date(model.resetAt).toISOString()
+          : undefined,
+      timeUntilResetMs:
+        model.frozenResetMs ??
+        (model.resetAt > 0 ? model.resetAt - account.lastUpdated : undefined),
+    })),
+  };
 }
 
 /**
@@ -122,6 +430,46 @@ function toStoredModel(model: ModelQuotaInfo): StoredModelQuota {
   };
 }
 
+/**
+ * Record a new reset window when resetAt jumps forward, and re-infer the
+ * model's cycle from the windows seen so far
+ */
+function trackResetCycle(
+  stored: StoredModelQuota,
+  existing?: StoredModelQuota
+) {
+  const resetTimes = [...(existing?.resetTimes ?? [])];
+
+  // At 100% the reset time isn't running yet, so it says nothing about the cycle
+  if (stored.resetAt > 0 && stored.remainingPercentage < 1.0) {
+    const last = resetTimes[resetTimes.length - 1];
+    if (last === undefined || stored.resetAt > last + RESET_JITTER_MS) {
+      resetTimes.push(stored.resetAt);
+    }
+  }
+
+  stored.resetTimes = resetTimes.slice(-MAX_RESET_TIMES);
+  stored.cycleMs = inferResetCycle(stored.resetTimes) ?? existing?.cycleMs;
+}
+
+/**
+ * Shortest gap between observed reset times. Missed windows only make gaps
+ * longer (a multiple of the cycle, or more if the window starts on first use),
+ * so the shortest one is the best estimate.
+ */
+export function inferResetCycle(resetTimes: number[]): number | undefined {
+  let shortest: number | undefined;
+  for (let i = 1; i < resetTimes.length; i++) {
+    const gap = resetTimes[i] - resetTimes[i - 1];
+    if (gap >= MIN_CYCLE_MS && (shortest === undefined || gap < shortest)) {
+      shortest = gap;
+    }
+  }
+  return shortest === undefined
+    ? undefined
+    : Math.round(shortest / CYCLE_ROUNDING_MS) * CYCLE_ROUNDING_MS;
+}
+
 /**
  * Upsert account quota data from a snapshot
  * If email exists, update it. Otherwise, add new entry.
@@ -131,37 +479,49 @@ export async function upsertAccountQuota(
   snapshot: QuotaSnapshot
 ): Promise<void> {
   try {
-    const store = await readQuotaStore();
-    const existingAccount = store[email];
-
-    // Convert models array to record keyed by modelId
-    const models: Record<string, StoredModelQuota> = {};
-    for (const model of snapshot.models) {
-      const stored = toStoredModel(model);
-
-      // If quota is 100% and we have existing data, preserve the old values
-      // This keeps the frozen display time stable for non-local accounts
-      if (
-        stored.remainingPercentage >= 1.0 &&
-        existingAccount?.models[model.modelId]
-      ) {
-        const existing = existingAccount.models[model.modelId];
-        if (existing.resetAt) stored.resetAt = existing.resetAt;
-        if (existing.frozenResetMs)
-          stored.frozenResetMs = existing.frozenResetMs;
+    await withStoreLock(async () => {
+      const store = await readStoreFileForUpdate();
+      const existingAccount = store[email];
+      const lastUpdated = Date.parse(snapshot.timestamp) || Date.now();
+
+      // Another window already stored a newer reading for this account
+      if (existingAccount && existingAccount.lastUpdated > lastUpdated) {
+        debug('quota-storage', `Skipped older data for account: ${email}`);
+        return;
       }
 
-      models[model.modelId] = stored;
-    }
+      // Convert models array to record keyed by modelId
+      const models: Record<string, StoredModelQuota> = {};
+      for (const model of snapshot.models) {
+        const stored = toStoredModel(model);
 
-    // Upsert the account
-    store[email] = {
-      lastUpdated: Date.now(),
-      models,
-    };
+        // If quota is 100% and we have existing data, preserve the old values
+        // This keeps the frozen display time stable for non-local accounts
+        if (
+          stored.remainingPercentage >= 1.0 &&
+          existingAccount?.models[model.modelId]
+        ) {
+          const existing = existingAccount.models[model.modelId];
+          if (existing.resetAt) stored.resetAt = existing.resetAt;
+          if (existing.frozenResetMs)
+            stored.frozenResetMs = existing.frozenResetMs;
+        }
 
-    await writeQuotaStore(store);
-    debug('quota-storage', `Upserted account: ${email}`);
+        trackResetCycle(stored, existingAccount?.models[model.modelId]);
+        models[model.modelId] = stored;
+      }
+
+      // Upsert the account
+      store[email] = {
+        lastUpdated,
+        planType: snapshot.planType,
+        promptCredits: snapshot.promptCredits,
+        models,
+      };
+
+      await writeStoreFile(store);
+      debug('quota-storage', `Upserted account: ${email}`);
+    });
   } catch (err) {
     error(`Failed to upsert account quota: ${err}`);
     // Don't throw - storage failure shouldn't break the extension
@@ -178,3 +538,96 @@ export async function getAllStoredAccounts(): Promise<QuotaStore> {
     return {};
   }
 }
+
+/**
+ * Who last wrote quota.json; undefined if it is missing or unreadable
+ */
+async function readWriter(): Promise<string | undefined> {
+  try {
+    return parseQuotaFile(await fs.promises.readFile(QUOTA_FILE, 'utf-8'))
+      .writer;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Call listener when another window (or a sync tool) changes quota.json.
+ * Events are debounced, and this window's own writes are ignored. If the
+ * watch fails (e.g. the directory is removed), it is set up again later.
+ */
+export function watchQuotaStore(listener: () => void): { dispose(): void } {
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: fs.FSWatcher | undefined;
+  let retryTimer: NodeJS.Timeout | undefined;
+
+  const check = async () => {
+    timer = undefined;
+    if ((await readWriter()) === WRITER_ID) {
+      return;
+    }
+    debug('quota-storage', 'Quota store changed on disk');
+    listener();
+  };
+
+  const scheduleCheck = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(check, WATCH_DEBOUNCE_MS);
+  };
+
+  // Until the watch is back, changes are only picked up at the next poll
+  const retryLater = (reason: string) => {
+    error(
+      `${reason}; stored accounts update at each poll until watching resumes`
+    );
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined;
+      if (start()) {
+        debug('quota-storage', 'Watching quota store again');
+        scheduleCheck(); // Changes may have been missed meanwhile
+      }
+    }, WATCH_RETRY_MS);
+  };
+
+  const start = (): boolean => {
+    try {
+      // Watch the directory: writes replace the file, which ends a file watch
+      fs.mkdirSync(QUOTA_DIR, { recursive: true });
+      watcher = fs.watch(QUOTA_DIR, (_event, filename) => {
+        // The directory itself went away, which ends the watch silently
+        if (
+          filename?.toString() === path.basename(QUOTA_DIR) &&
+          !fs.existsSync(QUOTA_DIR)
+        ) {
+          watcher?.close();
+          watcher = undefined;
+          retryLater('Quota store directory was removed');
+          return;
+        }
+        if (filename && filename.toString() !== path.basename(QUOTA_FILE)) {
+          return;
+        }
+        scheduleCheck();
+      });
+      watcher.on('error', (err) => {
+        watcher?.close();
+        watcher = undefined;
+        retryLater(`Quota store watcher failed: ${err}`);
+      });
+      return true;
+    } catch (err) {
+      retryLater(`Failed to watch quota store: ${err}`);
+      return false;
+    }
+  };
+
+  start();
+
+  return {
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      if (retryTimer) clearTimeout(retryTimer);
+      watcher?.close();
+    },
+  };
+}
@@ -0,0 +1,107 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseWebviewMessage } from '../webview/messages';
+
+test('valid messages come back typed, without extra fields', () => {
+  assert.deepEqual(parseWebviewMessage({ command: 'ready', version: 6 }), {
+    command: 'ready',
+    version: 6,
+  });
+  assert.deepEqual(
+    parseWebviewMessage({
+      command: 'toggleModel',
+      modelId: 'MODEL_GEMINI_FLASH',
+      selected: true,
+      extra: '<script>',
+    }),
+    { command: 'toggleModel', modelId: 'MODEL_GEMINI_FLASH', selected: true }
+  );
+  assert.deepEqual(
+    parseWebviewMessage({ command: 'setHistoryRange', range: '7d' }),
+    { command: 'setHistoryRange', range: '7d' }
+  );
+  assert.deepEqual(
+    parseWebviewMessage({
+      command: 'runCommand',
+      commandId: 'quota-checker.runDiagnostics',
+    }),
+    { command: 'runCommand', commandId: 'quota-checker.runDiagnostics' }
+  );
+});
+
+test('non-objects and unknown commands are rejected', () => {
+  for (const raw of [
+    undefined,
+    null,
+    'refresh',
+    42,
+    [{ command: 'refresh' }],
+    {},
+    { command: 'deleteEverything' },
+    { command: 'toString' },
+  ]) {
+    assert.equal(parseWebviewMessage(raw), undefined, JSON.stringify(raw));
+  }
+});
+
+test('runCommand only runs allow-listed commands', () => {
+  for (const commandId of [
+    'workbench.action.terminal.new',
+    'quota-checker.attachToUrl',
+    'quota-checker.refresh ',
+    42,
+    undefined,
+  ]) {
+    assert.equal(
+      parseWebviewMessage({ command: 'runCommand', commandId }),
+      undefined,
+      String(commandId)
+    );
+  }
+});
+
+test('toggleModel needs a boolean selected and a short modelId', () => {
+  for (const raw of [
+    { modelId: 'm1', selected: 'true' },
+    { modelId: 'm1', selected: 1 },
+    { modelId: 'm1' },
+    { modelId: '', selected: true },
+    { modelId: 'm'.repeat(201), selected: true },
+    { modelId: 42, selected: true },
+  ]) {
+    assert.equal(
+      parseWebviewMessage({ command: 'toggleModel', ...raw }),
+      undefined,
+      JSON.stringify(raw)
+    );
+  }
+  assert.ok(
+    parseWebviewMessage({
+      command: 'toggleModel',
+      modelId: 'm'.repeat(200),
+      selected: false,
+    })
+  );
+});
+
+test('setHistoryRange only accepts the known ranges', () => {
+  for (const range of ['30d', '24H', '', 24, undefined]) {
+    assert.equal(
+      parseWebviewMessage({ command: 'setHistoryRange', range }),
+      undefined,
+      String(range)
+    );
+  }
+});
+
+test('ready and setInterval check their field types', () => {
+  assert.equal(
+    parseWebviewMessage({ command: 'ready', version: '6' }),
+    undefined
+  );
+  assert.equal(
+    parseWebviewMessage({ command: 'setInterval', intensive: 'yes' }),
+    undefined
+  );
+});
@@ -0,0 +1,93 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelCatalog } from '../lib/quota/model-catalog';
+import type { ModelQuotaInfo } from '../lib/quota/types';
+
+function model(modelId: string, label: string): ModelQuotaInfo {
+  return { modelId, label, isExhausted: false, remainingPercentage: 0.5 };
+}
+
+const SONNET = model('MODEL_CLAUDE_SONNET', 'Claude Sonnet 4.5');
+const SONNET_THINKING = model(
+  'MODEL_CLAUDE_SONNET_THINKING',
+  'Claude Sonnet 4.5 (Thinking)'
+);
+const OPUS = model('MODEL_CLAUDE_OPUS', 'Claude Opus 4.5 (Thinking)');
+const FLASH = model('MODEL_GEMINI_FLASH', 'Gemini 3 Flash');
+const PRO_LOW = model('MODEL_GEMINI_PRO_LOW', 'Gemini 3 Pro (Low)');
+const PRO_HIGH = model('MODEL_GEMINI_PRO_HIGH', 'Gemini 3 Pro (High)');
+const GPT = model('MODEL_OPENAI_GPT_OSS', 'GPT-OSS 120B (Medium)');
+
+test('classify uses the first matching built-in entry', () => {
+  const catalog = new ModelCatalog();
+  assert.deepEqual(catalog.classify(SONNET_THINKING), {
+    provider: 'Claude',
+    family: 'Sonnet',
+    tier: 'Thinking',
+    shortLabel: 'Sonnet-T',
+    weight: 20,
+  });
+  assert.equal(catalog.classify(SONNET).shortLabel, 'Sonnet');
+  assert.equal(catalog.classify(PRO_LOW).shortLabel, 'Pro-L');
+  assert.equal(catalog.classify(PRO_HIGH).shortLabel, 'Pro');
+});
+
+test('classify falls back to the provider and the label', () => {
+  const catalog = new ModelCatalog();
+  assert.deepEqual(catalog.classify(model('m1', 'Claude Haiku 5')), {
+    provider: 'Claude',
+    shortLabel: 'Haiku',
+    weight: 100,
+  });
+  assert.equal(catalog.classify(GPT).provider, 'GPT');
+  assert.deepEqual(catalog.classify(model('m2', 'Mystery Model')), {
+    provider: 'Other',
+    shortLabel: 'Mystery',
+    weight: 100,
+  });
+});
+
+test('custom entries are checked before built-in ones', () => {
+  const catalog = new ModelCatalog([
+    { match: 'sonnet', provider: 'Claude', shortLabel: 'S', weight: 5 },
+    { match: 'mystery', provider: 'Acme', family: 'Mystery' },
+    { match: '(', provider: 'Broken' }, // Invalid pattern, ignored
+  ]);
+  assert.equal(catalog.classify(SONNET_THINKING).shortLabel, 'S');
+  assert.deepEqual(catalog.classify(model('m2', 'Mystery Model')), {
+    provider: 'Acme',
+    family: 'Mystery',
+    tier: undefined,
+    shortLabel: 'Mystery',
+    weight: 100,
+  });
+  assert.equal(catalog.classify(FLASH).shortLabel, 'Flash');
+});
+
+test('group orders providers, then weight, then label', () => {
+  const catalog = new ModelCatalog([{ match: 'mystery', provider: 'Acme' }]);
+  const other = model('m3', 'Zeta');
+  const acme = model('m2', 'Mystery Model');
+  const groups = catalog.group([
+    other,
+    PRO_HIGH,
+    acme,
+    OPUS,
+    GPT,
+    FLASH,
+    SONNET_THINKING,
+    PRO_LOW,
+    SONNET,
+  ]);
+  assert.deepEqual(
+    groups.map((g) => [g.name, g.models.map((m) => m.modelId)]),
+    [
+      ['Claude', [SONNET.modelId, SONNET_THINKING.modelId, OPUS.modelId]],
+      ['Gemini', [FLASH.modelId, PRO_LOW.modelId, PRO_HIGH.modelId]],
+      ['GPT', [GPT.modelId]],
+      ['Acme', [acme.modelId]],
+      ['Other', [other.modelId]],
+    ]
+  );
+});
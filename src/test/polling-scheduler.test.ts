@@ -0,0 +1,112 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeNextDelay,
+  PollingOptions,
+  PollingState,
+} from '../polling-scheduler';
+
+const MINUTE = 60 * 1000;
+
+const OPTIONS: PollingOptions = {
+  baseIntervalMs: 2 * MINUTE,
+  fastIntervalMs: 30 * 1000,
+  maxIntervalMs: 10 * MINUTE,
+  adaptive: true,
+};
+
+function state(overrides: Partial<PollingState> = {}): PollingState {
+  return {
+    consecutiveFailures: 0,
+    unchangedPolls: 0,
+    focused: true,
+    ...overrides,
+  };
+}
+
+const outcome = {
+  failed: false,
+  changed: false,
+  lowQuota: false,
+  nearReset: false,
+};
+
+test('polls at the base interval by default', () => {
+  assert.equal(computeNextDelay(state(), OPTIONS), 2 * MINUTE);
+});
+
+test('failures back off exponentially up to the max interval', () => {
+  const delays = [1, 2, 3, 4].map((failures) =>
+    computeNextDelay(state({ consecutiveFailures: failures }), OPTIONS)
+  );
+  assert.deepEqual(
+    delays,
+    [2, 4, 8, 10].map((m) => m * MINUTE)
+  );
+});
+
+test('failures back off even when adaptive polling is off', () => {
+  const options = { ...OPTIONS, adaptive: false };
+  assert.equal(
+    computeNextDelay(state({ consecutiveFailures: 2 }), options),
+    4 * MINUTE
+  );
+  assert.equal(
+    computeNextDelay(state({ unchangedPolls: 5, focused: false }), options),
+    2 * MINUTE
+  );
+});
+
+test('low quota or a near reset polls at the fast interval', () => {
+  for (const lastOutcome of [
+    { ...outcome, lowQuota: true },
+    { ...outcome, nearReset: true },
+  ]) {
+    assert.equal(
+      computeNextDelay(state({ lastOutcome, unchangedPolls: 5 }), OPTIONS),
+      30 * 1000
+    );
+  }
+});
+
+test('idle polls and an unfocused window each double the interval', () => {
+  assert.equal(
+    computeNextDelay(state({ unchangedPolls: 2 }), OPTIONS),
+    2 * MINUTE
+  );
+  assert.equal(
+    computeNextDelay(state({ unchangedPolls: 3 }), OPTIONS),
+    4 * MINUTE
+  );
+  assert.equal(
+    computeNextDelay(state({ focused: false }), OPTIONS),
+    4 * MINUTE
+  );
+  assert.equal(
+    computeNextDelay(state({ unchangedPolls: 3, focused: false }), OPTIONS),
+    8 * MINUTE
+  );
+});
+
+test('slow-downs stop at the max interval, but never below the base', () => {
+  const idle = state({ unchangedPolls: 3, focused: false });
+  assert.equal(
+    computeNextDelay(idle, { ...OPTIONS, maxIntervalMs: 5 * MINUTE }),
+    5 * MINUTE
+  );
+  assert.equal(
+    computeNextDelay(state(), { ...OPTIONS, maxIntervalMs: MINUTE }),
+    2 * MINUTE
+  );
+});
+
+test('failures never retry faster than a healthy poll', () => {
+  const options = { ...OPTIONS, maxIntervalMs: 10 * 1000 };
+  for (const failures of [1, 2, 5]) {
+    assert.equal(
+      computeNextDelay(state({ consecutiveFailures: failures }), options),
+      2 * MINUTE
+    );
+  }
+});
@@ -0,0 +1,118 @@
+import './setup';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  findListeningPorts,
+  getArgValue,
+  isProcAvailable,
+  listProcesses,
+  parseListeningSockets,
+} from '../lib/local/proc-reader';
+
+const TCP_HEADER =
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+// 127.0.0.1:42100 and :42101 listening, one established connection
+const TCP = [
+  TCP_HEADER,
+  '   0: 0100007F:A474 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5001 1 0000000000000000 100 0 0 10 0',
+  '   1: 0100007F:A475 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5002 1 0000000000000000 100 0 0 10 0',
+  '   2: 0100007F:A474 0100007F:D2F0 01 00000000:00000000 00:00000000 00000000  1000        0 5003 1 0000000000000000 20 4 30 10 -1',
+].join('\n');
+
+// [::1]:42102 listening
+const TCP6 = [
+  TCP_HEADER,
+  '   0: 00000000000000000000000001000000:A476 00000000000000000000000000000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 6001 1 0000000000000000 100 0 0 10 0',
+].join('\n');
+
+let procRoot: string;
+
+/**
+ * Build a fake /proc with one language server (PID 100), a kernel thread
+ * (PID 2) and a process whose fds can't be read (PID 300)
+ */
+before(() => {
+  procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-checker-proc-'));
+  fs.mkdirSync(path.join(procRoot, 'net'));
+  fs.writeFileSync(path.join(procRoot, 'net', 'tcp'), TCP);
+  fs.writeFileSync(path.join(procRoot, 'net', 'tcp6'), TCP6);
+
+  const server = path.join(procRoot, '100');
+  fs.mkdirSync(path.join(server, 'fd'), { recursive: true });
+  fs.writeFileSync(
+    path.join(server, 'cmdline'),
+    'language_server\0--csrf_token\0abc\0--extension_server_port=42100\0'
+  );
+  fs.symlinkSync('socket:[5001]', path.join(server, 'fd', '3'));
+  fs.symlinkSync('socket:[6001]', path.join(server, 'fd', '4'));
+  fs.symlinkSync('socket:[5003]', path.join(server, 'fd', '5'));
+  fs.symlinkSync('/dev/null', path.join(server, 'fd', '0'));
+
+  fs.mkdirSync(path.join(procRoot, '2'));
+  fs.writeFileSync(path.join(procRoot, '2', 'cmdline'), '');
+
+  fs.mkdirSync(path.join(procRoot, '300'));
+  fs.writeFileSync(path.join(procRoot, '300', 'cmdline'), 'other\0');
+
+  fs.mkdirSync(path.join(procRoot, 'self'));
+});
+
+after(() => {
+  fs.rmSync(procRoot, { recursive: true, force: true });
+});
+
+test('parseListeningSockets maps LISTEN inodes to ports', () => {
+  assert.deepEqual(
+    parseListeningSockets(TCP),
+    new Map([
+      ['5001', 42100],
+      ['5002', 42101],
+    ])
+  );
+  assert.deepEqual(parseListeningSockets(TCP6), new Map([['6001', 42102]]));
+});
+
+test('parseListeningSockets ignores the header and malformed lines', () => {
+  assert.equal(parseListeningSockets(`${TCP_HEADER}\n\ngarbage\n`).size, 0);
+});
+
+test('listProcesses splits cmdline and skips kernel threads', async () => {
+  assert.deepEqual(await listProcesses(procRoot), [
+    {
+      pid: 100,
+      args: [
+        'language_server',
+        '--csrf_token',
+        'abc',
+        '--extension_server_port=42100',
+      ],
+    },
+    { pid: 300, args: ['other'] },
+  ]);
+});
+
+test('findListeningPorts matches fd socket inodes to listening ports', async () => {
+  // 5003 is an established connection, 5002 belongs to another process
+  assert.deepEqual(await findListeningPorts(100, procRoot), [42100, 42102]);
+});
+
+test('findListeningPorts throws when the fd directory is unreadable', async () => {
+  await assert.rejects(findListeningPorts(300, procRoot));
+});
+
+test('isProcAvailable checks for net/tcp', async () => {
+  assert.equal(await isProcAvailable(procRoot), true);
+  assert.equal(await isProcAvailable(path.join(procRoot, '100')), false);
+});
+
+test('getArgValue reads --arg=value and --arg value', () => {
+  const args = ['bin', '--csrf_token', 'abc', '--extension_server_port=42100'];
+  assert.equal(getArgValue(args, '--csrf_token'), 'abc');
+  assert.equal(getArgValue(args, '--extension_server_port'), '42100');
+  assert.equal(getArgValue(args, '--missing'), undefined);
+  assert.equal(getArgValue(['--csrf_token'], '--csrf_token'), undefined);
+});
@@ -0,0 +1,144 @@
+import './setup';
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { QuotaSnapshot } from '../lib/quota/types';
+
+type QuotaStorage = typeof import('../storage/quota-storage');
+
+const HOUR = 60 * 60 * 1000;
+
+const ACCOUNT = {
+  lastUpdated: 1000,
+  models: {
+    m1: {
+      label: 'Gemini 3 Flash',
+      modelId: 'm1',
+      remainingPercentage: 0.5,
+      isExhausted: false,
+      resetAt: 5000,
+    },
+  },
+};
+
+// The store lives under the home directory, which is fixed on load
+let home: string;
+let quotaDir: string;
+let quotaFile: string;
+let storage: QuotaStorage;
+
+before(async () => {
+  home = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-checker-home-'));
+  process.env.HOME = home;
+  process.env.USERPROFILE = home;
+  quotaDir = path.join(home, '.quota-checker');
+  quotaFile = path.join(quotaDir, 'quota.json');
+  storage = await import('../storage/quota-storage');
+});
+
+after(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fs.rmSync(quotaDir, { recursive: true, force: true });
+  fs.mkdirSync(quotaDir, { recursive: true });
+});
+
+function writeFile(data: unknown) {
+  fs.writeFileSync(quotaFile, JSON.stringify(data));
+}
+
+function readFile(): Record<string, unknown> {
+  return JSON.parse(fs.readFileSync(quotaFile, 'utf-8'));
+}
+
+test('inferResetCycle uses the shortest gap, rounded', () => {
+  const t = Date.UTC(2026, 0, 1);
+  assert.equal(
+    storage.inferResetCycle([t, t + 10 * HOUR, t + 15 * HOUR - 2 * 60 * 1000]),
+    5 * HOUR
+  );
+});
+
+test('inferResetCycle ignores gaps shorter than an hour', () => {
+  assert.equal(storage.inferResetCycle([]), undefined);
+  assert.equal(storage.inferResetCycle([0]), undefined);
+  assert.equal(storage.inferResetCycle([0, 30 * 60 * 1000]), undefined);
+  assert.equal(
+    storage.inferResetCycle([0, 30 * 60 * 1000, 24 * HOUR]),
+    23.5 * HOUR
+  );
+});
+
+test('a missing file reads as an empty store', async () => {
+  assert.deepEqual(await storage.readQuotaStore(), {});
+});
+
+test('a v1 file (bare account map) is migrated on read', async () => {
+  writeFile({ 'a@example.com': ACCOUNT });
+  assert.deepEqual(await storage.readQuotaStore(), {
+    'a@example.com': ACCOUNT,
+  });
+});
+
+test('a write after migration saves the current version', async () => {
+  writeFile({ 'a@example.com': ACCOUNT });
+  const snapshot: QuotaSnapshot = {
+    timestamp: new Date(2000).toISOString(),
+    method: 'local',
+    email: 'b@example.com',
+    models: [],
+  };
+  await storage.upsertAccountQuota('b@example.com', snapshot);
+
+  const file = readFile();
+  assert.equal(file.version, 2);
+  assert.deepEqual(Object.keys(file.accounts as object).sort(), [
+    'a@example.com',
+    'b@example.com',
+  ]);
+  assert.deepEqual(
+    (file.accounts as Record<string, unknown>)['a@example.com'],
+    ACCOUNT
+  );
+});
+
+test('malformed accounts are dropped', async () => {
+  writeFile({
+    version: 2,
+    accounts: { 'a@example.com': ACCOUNT, 'b@example.com': { models: {} } },
+  });
+  assert.deepEqual(Object.keys(await storage.readQuotaStore()), [
+    'a@example.com',
+  ]);
+});
+
+test('a corrupt file is moved aside', async () => {
+  fs.writeFileSync(quotaFile, '{ not json');
+  assert.deepEqual(await storage.readQuotaStore(), {});
+
+  const files = fs.readdirSync(quotaDir);
+  assert.equal(files.includes('quota.json'), false);
+  const aside = files.filter((f) => f.startsWith('quota.json.corrupt-'));
+  assert.equal(aside.length, 1);
+  assert.equal(
+    fs.readFileSync(path.join(quotaDir, aside[0]), 'utf-8'),
+    '{ not json'
+  );
+});
+
+test('a file from a newer version is left untouched', async () => {
+  const newer = { version: 3, accounts: {}, extra: true };
+  writeFile(newer);
+  await assert.rejects(storage.readQuotaStore(), /newer than 2/);
+  await storage.upsertAccountQuota('a@example.com', {
+    timestamp: new Date(2000).toISOString(),
+    method: 'local',
+    models: [],
+  });
+  assert.deepEqual(readFile(), newer);
+  assert.deepEqual(fs.readdirSync(quotaDir), ['quota.json']);
+});
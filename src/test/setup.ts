@@ -0,0 +1,27 @@
+/**
+ * Test setup - lets modules that import 'vscode' load outside the editor
+ * Import it first in every test file. Only the APIs used when those modules
+ * load (or by the code under test) are provided.
+ */
+
+import Module from 'module';
+
+const vscodeStub = {
+  window: {
+    state: { focused: true },
+    createOutputChannel: () => ({
+      appendLine: () => undefined,
+      show: () => undefined,
+      dispose: () => undefined,
+    }),
+    onDidChangeWindowState: () => ({ dispose: () => undefined }),
+  },
+};
+
+const loader = Module as unknown as {
+  _load(request: string, ...rest: unknown[]): unknown;
+};
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+  return request === 'vscode' ? vscodeStub : load.call(this, request, ...rest);
+};
@@ -0,0 +1,74 @@
+import './setup';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ModelCatalog } from '../lib/quota/model-catalog';
+import { formatStatusBarModel, resolveShortLabels } from '../status-bar-format';
+import type { ModelQuotaInfo } from '../lib/quota/types';
+
+function model(modelId: string, label: string): ModelQuotaInfo {
+  return { modelId, label, isExhausted: false, remainingPercentage: 0.5 };
+}
+
+const SONNET = model('MODEL_CLAUDE_SONNET', 'Claude Sonnet 4.5');
+const SONNET_THINKING = model(
+  'MODEL_CLAUDE_SONNET_THINKING',
+  'Claude Sonnet 4.5 (Thinking)'
+);
+const FLASH = model('MODEL_GEMINI_FLASH', 'Gemini 3 Flash');
+const PRO_LOW = model('MODEL_GEMINI_PRO_LOW', 'Gemini 3 Pro (Low)');
+const PRO_HIGH = model('MODEL_GEMINI_PRO_HIGH', 'Gemini 3 Pro (High)');
+
+test('an exact modelId alias wins over a regex alias and the catalog', () => {
+  const labels = resolveShortLabels(
+    [SONNET, SONNET_THINKING, FLASH],
+    {
+      sonnet: 'Son',
+      [SONNET_THINKING.modelId]: 'Think',
+    },
+    new ModelCatalog()
+  );
+  assert.equal(labels.get(SONNET_THINKING.modelId), 'Think');
+  assert.equal(labels.get(SONNET.modelId), 'Son');
+  assert.equal(labels.get(FLASH.modelId), 'Flash');
+});
+
+test('regex aliases apply in order and invalid ones are skipped', () => {
+  const labels = resolveShortLabels(
+    [PRO_LOW, PRO_HIGH],
+    { '(': 'Broken', 'pro.*low': 'Cheap', pro: 'Pro!' },
+    new ModelCatalog()
+  );
+  assert.equal(labels.get(PRO_LOW.modelId), 'Cheap');
+  assert.equal(labels.get(PRO_HIGH.modelId), 'Pro!');
+});
+
+test('colliding labels get a distinguishing word, or a number', () => {
+  const catalog = new ModelCatalog();
+  const haiku = model('m1', 'Claude Haiku');
+  const nova = model('m2', 'Claude Nova');
+  const byWord = resolveShortLabels(
+    [haiku, nova],
+    { claude: 'Claude' },
+    catalog
+  );
+  assert.equal(byWord.get(haiku.modelId), 'Claude-Haiku');
+  assert.equal(byWord.get(nova.modelId), 'Claude-Nova');
+
+  const byNumber = resolveShortLabels(
+    [model('a', 'Claude Haiku'), model('b', 'Claude Haiku')],
+    {},
+    catalog
+  );
+  assert.deepEqual([...byNumber.values()], ['Haiku-1', 'Haiku-2']);
+});
+
+test('{reset} counts down from the time of rendering, not the snapshot', () => {
+  const MINUTE = 60 * 1000;
+  const flash = { ...FLASH, timeUntilResetMs: 120 * MINUTE };
+  const render = (snapshotTime: number) =>
+    formatStatusBarModel('{label} ({reset})', flash, 'Flash', snapshotTime);
+
+  assert.equal(render(Date.now()), 'Flash (2h)');
+  assert.equal(render(Date.now() - 30 * MINUTE), 'Flash (1h30m)');
+  assert.equal(render(Date.now() - 180 * MINUTE), 'Flash (0m)');
+});
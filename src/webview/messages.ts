@@ -0,0 +1,68 @@
+/**
+ * Dashboard message validation
+ * Everything the page posts is untrusted: check its shape before it reaches
+ * the extension's handlers.
+ */
+
+import type { WebviewMessage } from './protocol';
+
+// Commands the dashboard may run (e.g. from an error notice's action button)
+const ALLOWED_COMMANDS = new Set([
+  'quota-checker.refresh',
+  'quota-checker.runDiagnostics',
+]);
+
+// Model IDs are short identifiers; anything longer is not from our page
+const MAX_MODEL_ID_LENGTH = 200;
+
+/**
+ * Validate a message from the page
+ * @returns The typed message, or undefined if it doesn't match the protocol
+ */
+export function parseWebviewMessage(raw: unknown): WebviewMessage | undefined {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return undefined;
+  }
+  const message = raw as Record<string, unknown>;
+
+  switch (message.command) {
+    case 'ready':
+      return typeof message.version === 'number'
+        ? { command: 'ready', version: message.version }
+        : undefined;
+
+    case 'refresh':
+      return { command: 'refresh' };
+
+    case 'toggleModel':
+      return typeof message.modelId === 'string' &&
+        message.modelId.length > 0 &&
+        message.modelId.length <= MAX_MODEL_ID_LENGTH &&
+        typeof message.selected === 'boolean'
+        ? {
+            command: 'toggleModel',
+            modelId: message.modelId,
+            selected: message.selected,
+          }
+        : undefined;
+
+    case 'setInterval':
+      return typeof message.intensive === 'boolean'
+        ? { command: 'setInterval', intensive: message.intensive }
+        : undefined;
+
+    case 'setHistoryRange':
+      return message.range === '24h' || message.range === '7d'
+        ? { command: 'setHistoryRange', range: message.range }
+        : undefined;
+
+    case 'runCommand':
+      return typeof message.commandId === 'string' &&
+        ALLOWED_COMMANDS.has(message.commandId)
+        ? { command: 'runCommand', commandId: message.commandId }
+        : undefined;
+
+    default:
+      return undefined;
+  }
+}
@@ -1,7 +1,24 @@
 import * as vscode from 'vscode';
+import { debug, error } from '../logger';
 import type { QuotaSnapshot } from '../lib/quota/types';
-import type { QuotaStore } from '../storage/quota-storage';
+import { toQuotaSnapshot, QuotaStore } from '../storage/quota-storage';
 import { getWebviewContent } from './template';
+import { parseWebviewMessage } from './messages';
+import { buildDashboardState, HISTORY_RANGE_MS } from './view-model';
+import {
+  PROTOCOL_VERSION,
+  DashboardSection,
+  DashboardState,
+  ExtensionMessage,
+  HistoryRange,
+} from './protocol';
+import { getConfig, formatInterval } from '../config';
+import { ModelCatalog } from '../lib/quota/model-catalog';
+import {
+  queryQuotaHistory,
+  toHistoryEntries,
+  QuotaHistoryEntry,
+} from '../storage/quota-history';
 
 export type ToggleModelCallback = (modelId: string, selected: boolean) => void;
 export type SetIntervalCallback = (intensive: boolean) => void;
@@ -14,11 +31,19 @@ export class QuotaWebviewPanel {
   private selectedModels: string[] = [];
   private isIntensiveMode = false;
   private storedAccounts: QuotaStore = {};
+  private localSnapshots: QuotaSnapshot[] = [];
+  private history: QuotaHistoryEntry[] = [];
+  private historyRange: HistoryRange = '24h';
+  private historyLoadedFor: string | undefined; // Snapshot timestamp
+  private historyRequest = 0; // Latest load wins
   private onRefreshRequest: () => void;
   private onToggleModel: ToggleModelCallback;
   private onSetInterval: SetIntervalCallback;
 
   private version: string;
+  private isReady = false; // Page has loaded and can receive messages
+  private sentState: DashboardState | undefined; // What the page shows
+  private pendingFocus: string | undefined; // Model to scroll to once ready
 
   private constructor(
     panel: vscode.WebviewPanel,
@@ -38,14 +63,53 @@ export class QuotaWebviewPanel {
     );
     this.version = packageJson.version || 'unknown';
 
-    // Handle messages from webview
-    this.panel.webview.onDidReceiveMessage((message) => {
-      if (message.command === 'refresh') {
-        this.onRefreshRequest();
-      } else if (message.command === 'toggleModel') {
-        this.onToggleModel(message.modelId, message.selected);
-      } else if (message.command === 'setInterval') {
-        this.onSetInterval(message.intensive);
+    // Load the page once; updates are posted to it
+    this.panel.webview.html = getWebviewContent(
+      this.panel.webview,
+      extensionUri
+    );
+
+    // Handle messages from webview (validated first; the page is untrusted)
+    this.panel.webview.onDidReceiveMessage((raw: unknown) => {
+      const message = parseWebviewMessage(raw);
+      if (!message) {
+        debug('webview', `Ignoring invalid message: ${JSON.stringify(raw)}`);
+        return;
+      }
+
+      switch (message.command) {
+        case 'ready':
+          if (message.version !== PROTOCOL_VERSION) {
+            error(
+              `Dashboard protocol mismatch: page ${message.version}, extension ${PROTOCOL_VERSION}`
+            );
+            return;
+          }
+          // A (re)loaded page has nothing; send everything
+          this.isReady = true;
+          this.sentState = undefined;
+          this.render();
+          this.loadHistory();
+          if (this.pendingFocus) {
+            this.focusModel(this.pendingFocus);
+          }
+          break;
+        case 'refresh':
+          this.onRefreshRequest();
+          break;
+        case 'toggleModel':
+          this.onToggleModel(message.modelId, message.selected);
+          break;
+        case 'setInterval':
+          this.onSetInterval(message.intensive);
+          break;
+        case 'setHistoryRange':
+          this.historyRange = message.range;
+          this.loadHistory();
+          break;
+        case 'runCommand':
+          vscode.commands.executeCommand(message.commandId);
+          break;
       }
     });
 
@@ -77,6 +141,8 @@ export class QuotaWebviewPanel {
       {
         enableScripts: true,
         retainContextWhenHidden: true,
+        // Only the dashboard's own script and stylesheet can be loaded
+        localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')],
       }
     );
 
@@ -96,7 +162,8 @@ export class QuotaWebviewPanel {
     error?: Error,
     selectedModels?: string[],
     isIntensiveMode?: boolean,
-    storedAccounts?: QuotaStore
+    storedAccounts?: QuotaStore,
+    localSnapshots?: QuotaSnapshot[]
   ) {
     this.snapshot = snapshot;
     this.error = error;
@@ -109,16 +176,148 @@ export class QuotaWebviewPanel {
     if (storedAccounts !== undefined) {
       this.storedAccounts = storedAccounts;
     }
-    this.panel.webview.html = getWebviewContent(
-      snapshot,
-      error,
-      this.selectedModels,
-      this.isIntensiveMode,
-      this.storedAccounts,
-      this.version
+    if (localSnapshots !== undefined) {
+      this.localSnapshots = localSnapshots;
+    }
+
+    // New readings: add them to the charts without re-reading the file
+    if (snapshot && snapshot.timestamp !== this.historyLoadedFor) {
+      this.historyLoadedFor = snapshot.timestamp;
+      this.appendHistory(
+        this.localSnapshots.length > 0 ? this.localSnapshots : [snapshot]
+      );
+    }
+    if (storedAccounts !== undefined) {
+      this.appendStoredHistory(storedAccounts);
+    }
+    this.render();
+  }
+
+  /**
+   * Scroll the page to a model's card and highlight it
+   */
+  focusModel(modelId: string) {
+    if (!this.isReady) {
+      this.pendingFocus = modelId;
+      return;
+    }
+    this.pendingFocus = undefined;
+    const message: ExtensionMessage = {
+      type: 'focus',
+      version: PROTOCOL_VERSION,
+      modelId,
+    };
+    this.panel.webview.postMessage(message);
+  }
+
+  /**
+   * Read history for the selected range, then re-render the charts.
+   * Only needed when the page loads or the range changes; later readings
+   * are appended in memory.
+   */
+  private async loadHistory() {
+    const request = ++this.historyRequest;
+    const history = await queryQuotaHistory({
+      since: Date.now() - HISTORY_RANGE_MS[this.historyRange],
+    });
+    if (request !== this.historyRequest) return;
+
+    // Keep readings appended while the file was being read
+    const latest = history.reduce((max, e) => Math.max(max, e.timestamp), 0);
+    this.history = [
+      ...history,
+      ...this.history.filter((e) => e.timestamp > latest),
+    ];
+    this.render();
+  }
+
+  /**
+   * Add the readings of new snapshots to the in-memory history, dropping
+   * readings that fell out of the range
+   */
+  private appendHistory(snapshots: QuotaSnapshot[]) {
+    const since = Date.now() - HISTORY_RANGE_MS[this.historyRange];
+    const added = snapshots.flatMap((s) =>
+      s.email ? toHistoryEntries(s.email, s) : []
+    );
+    this.history = [...this.history, ...added].filter(
+      (e) => e.timestamp >= since
     );
   }
 
+  /**
+   * Add readings other windows stored since the charts last saw them.
+   * Accounts shown live are left to update(), so nothing is added twice.
+   */
+  private appendStoredHistory(store: QuotaStore) {
+    const local = new Set(this.localSnapshots.map((s) => s.email));
+    if (this.snapshot) local.add(this.snapshot.email);
+
+    const latest = new Map<string, number>();
+    for (const entry of this.history) {
+      latest.set(
+        entry.email,
+        Math.max(latest.get(entry.email) ?? 0, entry.timestamp)
+      );
+    }
+
+    const newer = Object.entries(store)
+      .filter(
+        ([email, account]) =>
+          !local.has(email) && account.lastUpdated > (latest.get(email) ?? 0)
+      )
+      .map(([email, account]) => toQuotaSnapshot(email, account));
+    if (newer.length > 0) {
+      this.appendHistory(newer);
+    }
+  }
+
+  /**
+   * Send the page the full state, or only the sections that changed
+   */
+  private render() {
+    // The page asks for the state once it has loaded
+    if (!this.isReady) return;
+
+    const config = getConfig();
+    const state = buildDashboardState({
+      snapshot: this.snapshot,
+      error: this.error,
+      selectedModels: this.selectedModels,
+      isIntensiveMode: this.isIntensiveMode,
+      storedAccounts: this.storedAccounts,
+      localSnapshots: this.localSnapshots,
+      version: this.version,
+      pollingIntervals: {
+        normal: formatInterval(config.pollingInterval),
+        intensive: formatInterval(config.intensivePollingInterval),
+      },
+      history: this.history,
+      historyRange: this.historyRange,
+      catalog: new ModelCatalog(config.modelCatalog),
+    });
+
+    let message: ExtensionMessage;
+    if (!this.sentState) {
+      message = { type: 'state', version: PROTOCOL_VERSION, state };
+    } else {
+      const patch: Partial<DashboardState> = {};
+      for (const section of Object.keys(state) as DashboardSection[]) {
+        if (
+          JSON.stringify(state[section]) !==
+          JSON.stringify(this.sentState[section])
+        ) {
+          Object.assign(patch, { [section]: state[section] });
+        }
+      }
+      if (Object.keys(patch).length === 0) return;
+      message = { type: 'patch', version: PROTOCOL_VERSION, patch };
+    }
+
+    this.sentState = state;
+    this.panel.webview.postMessage(message);
+  }
+
   static getCurrent(): QuotaWebviewPanel | undefined {
     return QuotaWebviewPanel.currentPanel;
   }
@@ -128,7 +327,8 @@ export class QuotaWebviewPanel {
     error?: Error,
     selectedModels?: string[],
     isIntensiveMode?: boolean,
-    storedAccounts?: QuotaStore
+    storedAccounts?: QuotaStore,
+    localSnapshots?: QuotaSnapshot[]
   ) {
     if (QuotaWebviewPanel.currentPanel) {
       QuotaWebviewPanel.currentPanel.update(
@@ -136,7 +336,8 @@ export class QuotaWebviewPanel {
         error,
         selectedModels,
         isIntensiveMode,
-        storedAccounts
+        storedAccounts,
+        localSnapshots
       );
     }
   }
@@ -0,0 +1,149 @@
+/**
+ * Dashboard message protocol
+ * The page is loaded once; afterwards the extension sends the full state
+ * when the page reports it's ready, then only the sections that changed.
+ *
+ * Bump PROTOCOL_VERSION whenever a message or state shape changes.
+ * The state holds timestamps rather than relative ages ("5m ago"), so an
+ * unchanged section stays unchanged; the page formats and refreshes ages.
+ */
+
+export const PROTOCOL_VERSION = 7;
+
+/**
+ * Text the page keeps current, e.g. "Resets in {age}"
+ */
+export interface RelativeTimeView {
+  at: number; // Timestamp (ms)
+  template: string; // "{age}" is replaced with the time until or since `at`
+}
+
+export interface ModelCardView {
+  modelId: string;
+  label: string;
+  percent: number; // 0-100, rounded
+  level: 'low' | 'medium' | 'high';
+  estimated: boolean; // Percent is projected, not a reading
+  resetText?: string; // Fixed text, e.g. the frozen countdown of a full model
+  resetIn?: RelativeTimeView; // Counted down on the page
+  resetAgo?: RelativeTimeView; // A passed reset, counted up on the page
+  forecastText?: string;
+  forecastWarning: boolean;
+  historyKey?: string; // Key into HistoryView.series, if the model has history
+}
+
+export interface ModelGroupView {
+  name: string;
+  models: ModelCardView[];
+}
+
+export interface AccountView {
+  email: string;
+  local: boolean;
+  updatedAt?: number; // When a stored account was last polled (ms)
+  planText?: string; // e.g. "Pro · 450 / 500 credits (90% left)"
+  groups: ModelGroupView[];
+}
+
+export interface SelectionItemView {
+  modelId: string;
+  label: string;
+  selected: boolean;
+}
+
+export interface ActionView {
+  label: string;
+  commandId: string;
+}
+
+/**
+ * Message shown above (or instead of) the quota data
+ */
+export type NoticeView =
+  | { kind: 'loading' }
+  | { kind: 'error'; title: string; detail: string; action?: ActionView }
+  | {
+      kind: 'stale';
+      title: string;
+      detail: string;
+      fetchedAt: number; // Time of the data shown (ms)
+      action?: ActionView;
+    };
+
+export type HistoryRange = '24h' | '7d';
+
+export interface HistorySeriesView {
+  points: [number, number][]; // [timestamp ms, remaining percent 0-100]
+  resets: number[]; // Timestamps where the quota went back up
+}
+
+/**
+ * Remaining-percentage history for every model over the selected range
+ */
+export interface HistoryView {
+  range: HistoryRange;
+  from: number;
+  to: number;
+  series: Record<string, HistorySeriesView>;
+}
+
+export interface CreditsView {
+  available: string; // Formatted counts
+  monthly: string;
+  used: string;
+  percent: number; // Remaining, 0-100
+  level: 'low' | 'medium' | 'high';
+}
+
+/**
+ * Plan and prompt credits of the current account
+ */
+export interface PlanView {
+  name?: string;
+  credits?: CreditsView;
+}
+
+export interface HeaderView {
+  isIntensiveMode: boolean;
+  intervalLabel: string; // Label of the button that switches mode
+  plan?: PlanView;
+}
+
+export interface FooterView {
+  lastUpdated?: string;
+  version: string;
+}
+
+/**
+ * Everything the page renders. Each top-level key is a section that is
+ * re-rendered on its own.
+ */
+export interface DashboardState {
+  header: HeaderView;
+  notice: NoticeView | null;
+  selection: SelectionItemView[];
+  accounts: AccountView[];
+  history: HistoryView; // Drawn inside the account cards
+  footer: FooterView;
+}
+
+export type DashboardSection = keyof DashboardState;
+
+/**
+ * Extension → page
+ */
+export type ExtensionMessage =
+  | { type: 'state'; version: number; state: DashboardState }
+  | { type: 'patch'; version: number; patch: Partial<DashboardState> }
+  | { type: 'focus'; version: number; modelId: string }; // Scroll to a model
+
+/**
+ * Page → extension
+ */
+export type WebviewMessage =
+  | { command: 'ready'; version: number }
+  | { command: 'refresh' }
+  | { command: 'toggleModel'; modelId: string; selected: boolean }
+  | { command: 'setInterval'; intensive: boolean }
+  | { command: 'setHistoryRange'; range: HistoryRange }
+  | { command: 'runCommand'; commandId: string };
@@ -0,0 +1,404 @@
+/**
+ * Dashboard view model
+ * Turns snapshots and stored accounts into the plain data the page renders
+ */
+
+import type {
+  QuotaSnapshot,
+  ModelQuotaInfo,
+  PromptCreditsInfo,
+} from '../lib/quota/types';
+import type { QuotaStore, StoredModelQuota } from '../storage/quota-storage';
+import { describeForecast } from '../lib/quota/forecast';
+import { describeConnectionError } from '../connection-state';
+import { formatCredits, formatDuration } from '../lib/quota/format';
+import type { ModelCatalog } from '../lib/quota/model-catalog';
+import type { QuotaHistoryEntry } from '../storage/quota-history';
+import type {
+  AccountView,
+  ActionView,
+  DashboardState,
+  HistoryRange,
+  HistorySeriesView,
+  HistoryView,
+  ModelCardView,
+  ModelGroupView,
+  NoticeView,
+  PlanView,
+  RelativeTimeView,
+  SelectionItemView,
+} from './protocol';
+
+export interface DashboardInput {
+  snapshot: QuotaSnapshot | null;
+  error?: Error;
+  selectedModels: string[];
+  isIntensiveMode: boolean;
+  storedAccounts: QuotaStore;
+  localSnapshots: QuotaSnapshot[];
+  version: string;
+  pollingIntervals: { normal: string; intensive: string };
+  history: QuotaHistoryEntry[]; // Readings within the history range
+  historyRange: HistoryRange;
+  catalog: ModelCatalog;
+}
+
+export const HISTORY_RANGE_MS: Record<HistoryRange, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+// Enough for a card-wide chart; more points just bloat the messages
+const MAX_CHART_POINTS = 150;
+
+// Ignore rounding noise when looking for resets (percentage points)
+const RESET_MIN_RISE = 1;
+
+/**
+ * Build the complete dashboard state
+ */
+export function buildDashboardState(input: DashboardInput): DashboardState {
+  const { snapshot, error, isIntensiveMode, pollingIntervals, catalog } = input;
+
+  // One live block per local instance (primary first)
+  const localAccounts = snapshot
+    ? input.localSnapshots.length > 0
+      ? input.localSnapshots
+      : [snapshot]
+    : [];
+  const localEmails = new Set(localAccounts.map((s) => s.email));
+
+  return {
+    header: {
+      isIntensiveMode,
+      intervalLabel: isIntensiveMode
+        ? `🔋 Normal (${pollingIntervals.normal})`
+        : `⚡ Intensive (${pollingIntervals.intensive})`,
+      plan: snapshot ? buildPlan(snapshot) : undefined,
+    },
+    notice: buildNotice(snapshot, error),
+    selection: snapshot
+      ? buildSelection(snapshot.models, input.selectedModels, catalog)
+      : [],
+    accounts: snapshot
+      ? [
+          ...localAccounts.map((local) => buildLocalAccount(local, catalog)),
+          ...buildStoredAccounts(input.storedAccounts, localEmails, catalog),
+        ]
+      : [],
+    history: buildHistory(
+      input.history,
+      input.historyRange,
+      snapshot ? Date.parse(snapshot.timestamp) : undefined
+    ),
+    footer: {
+      lastUpdated: snapshot?.timestamp,
+      version: input.version,
+    },
+  };
+}
+
+/**
+ * Plan name and prompt credits for the header, if the server reported any
+ */
+function buildPlan(snapshot: QuotaSnapshot): PlanView | undefined {
+  const { planType, promptCredits } = snapshot;
+  if (!planType && !promptCredits) {
+    return undefined;
+  }
+
+  return {
+    name: planType,
+    credits: promptCredits && {
+      available: promptCredits.available.toLocaleString(),
+      monthly: promptCredits.monthly.toLocaleString(),
+      used: Math.max(
+        0,
+        promptCredits.monthly - promptCredits.available
+      ).toLocaleString(),
+      percent: Math.round(promptCredits.remainingPercentage * 100),
+      level: getLevel(promptCredits.remainingPercentage),
+    },
+  };
+}
+
+/**
+ * One-line plan summary for an account card, e.g. "Pro · 450 / 500 credits"
+ */
+function describePlan(
+  planType: string | undefined,
+  credits: PromptCreditsInfo | undefined
+): string | undefined {
+  const parts = [
+    planType,
+    credits && `${formatCredits(credits)} prompt credits`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+/**
+ * Loading message, error page, or the banner above stale data
+ */
+function buildNotice(
+  snapshot: QuotaSnapshot | null,
+  error: Error | undefined
+): NoticeView | null {
+  if (!error) {
+    return snapshot ? null : { kind: 'loading' };
+  }
+
+  const { title, detail, action } = describeConnectionError(error);
+  // Retry is always shown, so only offer other actions
+  const extraAction: ActionView | undefined =
+    action.command === 'quota-checker.refresh'
+      ? undefined
+      : { label: action.label, commandId: action.command };
+
+  if (!snapshot) {
+    return { kind: 'error', title, detail, action: extraAction };
+  }
+
+  return {
+    kind: 'stale',
+    title,
+    detail,
+    fetchedAt: Date.parse(snapshot.timestamp),
+    action: extraAction,
+  };
+}
+
+/**
+ * Status bar model checkboxes (all models from the primary account)
+ */
+function buildSelection(
+  models: ModelQuotaInfo[],
+  selectedModels: string[],
+  catalog: ModelCatalog
+): SelectionItemView[] {
+  return catalog.sort(models).map((m) => ({
+    modelId: m.modelId,
+    label: catalog.classify(m).shortLabel,
+    selected: selectedModels.includes(m.modelId),
+  }));
+}
+
+function buildLocalAccount(
+  local: QuotaSnapshot,
+  catalog: ModelCatalog
+): AccountView {
+  return {
+    email: local.email ?? 'Local Account',
+    local: true,
+    planText: describePlan(local.planType, local.promptCredits),
+    groups: catalog.group(local.models).map(({ name, models }) => ({
+      name,
+      models: models.map((m) => ({
+        ...buildModelCard(m),
+        historyKey: local.email
+          ? getHistoryKey(local.email, m.modelId)
+          : undefined,
+      })),
+    })),
+  };
+}
+
+/**
+ * Stored accounts, excluding any account shown live
+ */
+function buildStoredAccounts(
+  storedAccounts: QuotaStore,
+  localEmails: Set<string | undefined>,
+  catalog: ModelCatalog
+): AccountView[] {
+  return Object.keys(storedAccounts)
+    .filter((email) => !localEmails.has(email))
+    .map((email) => {
+      const account = storedAccounts[email];
+      return {
+        email,
+        local: false,
+        updatedAt: account.lastUpdated,
+        planText: describePlan(account.planType, account.promptCredits),
+        groups: catalog
+          .group(Object.values(account.models))
+          .map(({ name, models }): ModelGroupView => ({
+            name,
+            models: models.map((m) => ({
+              ...buildStoredModelCard(m),
+              historyKey: getHistoryKey(email, m.modelId),
+            })),
+          })),
+      };
+    });
+}
+
+function buildModelCard(m: ModelQuotaInfo): ModelCardView {
+  const pct = m.remainingPercentage ?? 0;
+
+  let resetText: string | undefined;
+  if (m.timeUntilResetMs !== undefined && m.timeUntilResetMs > 0) {
+    resetText = `Resets in ${formatResetDuration(m.timeUntilResetMs)}`;
+  } else if (m.resetTime) {
+    resetText = `Resets: ${m.resetTime}`;
+  }
+
+  return {
+    modelId: m.modelId,
+    label: stripProviderPrefix(m.label),
+    percent: Math.round(pct * 100),
+    level: getLevel(pct),
+    estimated: false,
+    resetText,
+    forecastText: describeForecast(m),
+    forecastWarning: m.forecast?.exhaustsBeforeReset ?? false,
+  };
+}
+
+/**
+ * Stored data can be hours old. Once its reset time has passed the model is
+ * projected back to 100%, and the next reset is projected with the cycle
+ * learned for that model; both are marked as estimates.
+ */
+function buildStoredModelCard(model: StoredModelQuota): ModelCardView {
+  let pct = model.remainingPercentage ?? 0;
+  let estimated = false;
+  let resetText: string | undefined;
+  let resetIn: RelativeTimeView | undefined;
+  let resetAgo: RelativeTimeView | undefined;
+
+  // For 100% quota, use frozen time (doesn't decay)
+  // For < 100% quota, the page counts down to resetAt
+  if (model.frozenResetMs !== undefined && model.frozenResetMs > 0) {
+    resetText = `Resets in ${formatResetDuration(model.frozenResetMs)}`;
+  } else if (model.resetAt > Date.now()) {
+    resetIn = { at: model.resetAt, template: 'Resets in {age}' };
+  } else if (model.resetAt > 0) {
+    pct = 1.0;
+    estimated = true;
+    const cycleMs = model.cycleMs;
+    if (cycleMs) {
+      const cycles = Math.ceil((Date.now() - model.resetAt) / cycleMs) || 1;
+      resetIn = {
+        at: model.resetAt + cycles * cycleMs,
+        template: `Resets in ~{age} (est., ${formatDuration(cycleMs)} cycle)`,
+      };
+    } else {
+      resetAgo = { at: model.resetAt, template: 'Reset {age} ago (est.)' };
+    }
+  }
+
+  return {
+    modelId: model.modelId,
+    label: stripProviderPrefix(model.label),
+    percent: Math.round(pct * 100),
+    level: getLevel(pct),
+    estimated,
+    resetText,
+    resetIn,
+    resetAgo,
+    forecastWarning: false,
+  };
+}
+
+/**
+ * Chart series per account and model, downsampled for display.
+ * The range ends at the latest snapshot rather than now, so the view only
+ * changes when there is new data.
+ * @param fetchedAt Time of the latest snapshot; defaults to the last reading
+ */
+function buildHistory(
+  entries: QuotaHistoryEntry[],
+  range: HistoryRange,
+  fetchedAt?: number
+): HistoryView {
+  const to =
+    fetchedAt ||
+    entries.reduce((latest, e) => Math.max(latest, e.timestamp), 0);
+  const from = to - HISTORY_RANGE_MS[range];
+
+  const byKey = new Map<string, QuotaHistoryEntry[]>();
+  for (const entry of entries) {
+    if (entry.timestamp < from) continue;
+    const key = getHistoryKey(entry.email, entry.modelId);
+    let series = byKey.get(key);
+    if (!series) {
+      series = [];
+      byKey.set(key, series);
+    }
+    series.push(entry);
+  }
+
+  const series: Record<string, HistorySeriesView> = {};
+  for (const [key, readings] of byKey) {
+    readings.sort((a, b) => a.timestamp - b.timestamp);
+    series[key] = {
+      points: downsample(readings, from, to).map((e) => [
+        e.timestamp,
+        Math.round(e.remainingPercentage * 1000) / 10,
+      ]),
+      resets: findResets(readings),
+    };
+  }
+
+  return { range, from, to, series };
+}
+
+/**
+ * Quota only goes back up when it resets
+ */
+function findResets(readings: QuotaHistoryEntry[]): number[] {
+  const resets: number[] = [];
+  for (let i = 1; i < readings.length; i++) {
+    const rise =
+      (readings[i].remainingPercentage - readings[i - 1].remainingPercentage) *
+      100;
+    if (rise >= RESET_MIN_RISE) {
+      resets.push(readings[i].timestamp);
+    }
+  }
+  return resets;
+}
+
+/**
+ * Keep at most MAX_CHART_POINTS readings: the lowest per time bucket, so
+ * a model running dry still shows on the chart
+ */
+function downsample(
+  readings: QuotaHistoryEntry[],
+  from: number,
+  to: number
+): QuotaHistoryEntry[] {
+  if (readings.length <= MAX_CHART_POINTS) return readings;
+
+  const bucketMs = (to - from) / MAX_CHART_POINTS;
+  const buckets = new Map<number, QuotaHistoryEntry>();
+  for (const reading of readings) {
+    const bucket = Math.floor((reading.timestamp - from) / bucketMs);
+    const kept = buckets.get(bucket);
+    if (!kept || reading.remainingPercentage < kept.remainingPercentage) {
+      buckets.set(bucket, reading);
+    }
+  }
+  return [...buckets.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function getHistoryKey(email: string, modelId: string): string {
+  return `${email}|${modelId}`;
+}
+
+// Strip the provider prefix from model labels
+function stripProviderPrefix(label: string): string {
+  return label.replace(/^Claude\s+/i, '').replace(/^Gemini\s+/i, '');
+}
+
+function getLevel(pct: number): ModelCardView['level'] {
+  return pct < 0.2 ? 'low' : pct < 0.5 ? 'medium' : 'high';
+}
+
+// e.g. "2d 4h 10m" or "3h 5m"
+function formatResetDuration(ms: number): string {
+  const days = Math.floor(ms / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((ms % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
+  return days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m`;
+}